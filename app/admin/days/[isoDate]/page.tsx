@@ -0,0 +1,71 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { cookies } from "next/headers";
+import { notFound } from "next/navigation";
+import { AdminLogin } from "@/components/admin-login";
+import { DayOverrideEditor } from "@/components/day-override-editor";
+import { ADMIN_COOKIE, isValidAdminSession } from "@/lib/auth";
+import {
+  getDayOverride,
+  getDayScheduleByISO,
+  getOverrideAudit,
+} from "@/lib/kv";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Poprawki planu - Co dziś w Hardym?",
+  robots: { index: false, follow: false },
+};
+
+export default async function AdminDayPage({
+  params,
+}: {
+  params: Promise<{ isoDate: string }>;
+}) {
+  const { isoDate } = await params;
+  const cookieStore = await cookies();
+  const authorized = isValidAdminSession(cookieStore.get(ADMIN_COOKIE)?.value);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b sticky top-0 z-50 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-5 sm:py-6 text-center">
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">
+            Poprawki planu
+          </h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-3 sm:px-4 lg:px-6 py-6 sm:py-8 max-w-3xl space-y-4">
+        <Link
+          href="/admin"
+          className="inline-block text-sm text-muted-foreground underline"
+        >
+          ← Panel administracyjny
+        </Link>
+        {authorized ? <Editor isoDate={isoDate} /> : <AdminLogin />}
+      </main>
+    </div>
+  );
+}
+
+async function Editor({ isoDate }: { isoDate: string }) {
+  const [schedule, override, history] = await Promise.all([
+    getDayScheduleByISO(isoDate),
+    getDayOverride(isoDate),
+    getOverrideAudit(isoDate),
+  ]);
+
+  if (!schedule) notFound();
+
+  return (
+    <DayOverrideEditor
+      isoDate={isoDate}
+      schedule={schedule}
+      hasOverride={override !== null}
+      history={history}
+    />
+  );
+}
@@ -0,0 +1,86 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { AdminDashboard } from "@/components/admin-dashboard";
+import { AdminLogin } from "@/components/admin-login";
+import { ADMIN_COOKIE, isValidAdminSession } from "@/lib/auth";
+import {
+  getAllDaySchedules,
+  getLatestUpdate,
+  getScrapeRuns,
+  getStoredWeeks,
+  getUnknownTypes,
+  getUnmatchedExercises,
+  getUnparsedDurations,
+  shouldSkipScraping,
+} from "@/lib/kv";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Panel administracyjny - Co dziś w Hardym?",
+  robots: { index: false, follow: false },
+};
+
+export default async function AdminPage() {
+  const cookieStore = await cookies();
+  const authorized = isValidAdminSession(cookieStore.get(ADMIN_COOKIE)?.value);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b sticky top-0 z-50 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-5 sm:py-6 text-center">
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">
+            Panel administracyjny
+          </h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-3 sm:px-4 lg:px-6 py-6 sm:py-8 max-w-3xl">
+        {authorized ? <Dashboard /> : <AdminLogin />}
+      </main>
+    </div>
+  );
+}
+
+async function Dashboard() {
+  // Call database directly instead of HTTP fetch for server-side rendering
+  const [
+    { runs },
+    coverage,
+    latestUpdate,
+    weeks,
+    days,
+    unknownTypes,
+    unmatchedExercises,
+    unparsedDurations,
+  ] = await Promise.all([
+    getScrapeRuns(0, 10),
+    shouldSkipScraping(),
+    getLatestUpdate(),
+    getStoredWeeks(),
+    getAllDaySchedules(),
+    getUnknownTypes(),
+    getUnmatchedExercises(),
+    getUnparsedDurations(),
+  ]);
+
+  return (
+    <AdminDashboard
+      runs={runs}
+      coverage={coverage}
+      latestUpdate={latestUpdate}
+      weeks={weeks}
+      unknownTypes={unknownTypes}
+      unmatchedExercises={unmatchedExercises}
+      unparsedDurations={unparsedDurations}
+      days={days.map((day) => ({
+        isoDate: day.isoDate ?? "",
+        date: day.date,
+        dayName: day.dayName,
+        sessionCount: day.trainingSessions.length,
+        overridden: !!day.overriddenAt,
+      }))}
+    />
+  );
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/auth";
+import { deleteDaySchedule } from "@/lib/kv";
+
+/**
+ * DELETE /api/admin/days/[isoDate]
+ *
+ * Deletes a stored day schedule
+ * Requires admin authorization (bearer token or session cookie)
+ * Params:
+ *   - isoDate: Date in YYYY-MM-DD format
+ *
+ * Response: { deleted: boolean }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ isoDate: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { isoDate } = await params;
+
+    // Validate date format (YYYY-MM-DD)
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if (!datePattern.test(isoDate)) {
+      return NextResponse.json(
+        { error: "Nieprawidłowy format daty. Użyj formatu YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteDaySchedule(isoDate);
+
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error("Error deleting day schedule:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas usuwania planu treningowego" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminRequest } from "@/lib/auth";
+import {
+  getDayOverride,
+  getDayScheduleByISO,
+  getOverrideAudit,
+  getScrapedDaySchedule,
+} from "@/lib/kv";
+import {
+  editDaySession,
+  replaceDaySessions,
+  revertDay,
+} from "@/lib/corrections";
+import { SessionEditSchema } from "@/lib/types";
+
+/**
+ * /api/admin/overrides/[isoDate]
+ *
+ * Manual corrections of a stored day schedule
+ * Requires admin authorization (bearer token or session cookie)
+ * Params:
+ *   - isoDate: Date in YYYY-MM-DD format
+ *
+ * GET    → { scraped, override, schedule, history }
+ * PUT    → Replace all sessions. Body: { trainingSessions, author? }
+ * PATCH  → Correct one session. Body: { index, changes, author? }
+ * DELETE → Drop all corrections. Query: ?author=
+ *
+ * Changes are layered over the scraped data (they survive re-scrapes) and
+ * recorded in the day's audit history.
+ */
+
+const PutBodySchema = z.object({
+  trainingSessions: z.array(SessionEditSchema),
+  author: z.string().optional(),
+});
+
+const PatchBodySchema = z.object({
+  index: z.number().int().min(0),
+  changes: SessionEditSchema.partial(),
+  author: z.string().optional(),
+});
+
+type Params = { params: Promise<{ isoDate: string }> };
+
+/**
+ * Validate the request and extract the ISO date
+ * @returns ISO date, or an error response
+ */
+async function authorize(
+  request: NextRequest,
+  params: Params["params"]
+): Promise<{ isoDate: string } | { response: NextResponse }> {
+  if (!isAdminRequest(request)) {
+    return {
+      response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+
+  const { isoDate } = await params;
+
+  // Validate date format (YYYY-MM-DD)
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (!datePattern.test(isoDate)) {
+    return {
+      response: NextResponse.json(
+        { error: "Nieprawidłowy format daty. Użyj formatu YYYY-MM-DD" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return { isoDate };
+}
+
+/**
+ * Normalize the author name recorded in the audit history
+ */
+function getAuthor(author: string | null | undefined): string {
+  return author?.trim().slice(0, 50) || "admin";
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Nie znaleziono planu treningowego dla tej daty" },
+    { status: 404 }
+  );
+}
+
+function invalidBody() {
+  return NextResponse.json(
+    { error: "Nieprawidłowe dane poprawki" },
+    { status: 400 }
+  );
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(request, params);
+    if ("response" in auth) return auth.response;
+
+    const [scraped, override, schedule, history] = await Promise.all([
+      getScrapedDaySchedule(auth.isoDate),
+      getDayOverride(auth.isoDate),
+      getDayScheduleByISO(auth.isoDate),
+      getOverrideAudit(auth.isoDate),
+    ]);
+
+    if (!scraped) return notFound();
+
+    return NextResponse.json({ scraped, override, schedule, history });
+  } catch (error) {
+    console.error("Error fetching day override:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas pobierania poprawek" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(request, params);
+    if ("response" in auth) return auth.response;
+
+    const body = PutBodySchema.safeParse(
+      await request.json().catch(() => null)
+    );
+    if (!body.success) return invalidBody();
+
+    const schedule = await replaceDaySessions(
+      auth.isoDate,
+      body.data.trainingSessions,
+      getAuthor(body.data.author)
+    );
+
+    return schedule ? NextResponse.json(schedule) : notFound();
+  } catch (error) {
+    console.error("Error replacing day sessions:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas zapisywania poprawki" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(request, params);
+    if ("response" in auth) return auth.response;
+
+    const body = PatchBodySchema.safeParse(
+      await request.json().catch(() => null)
+    );
+    if (!body.success) return invalidBody();
+
+    const schedule = await editDaySession(
+      auth.isoDate,
+      body.data.index,
+      body.data.changes,
+      getAuthor(body.data.author)
+    );
+
+    return schedule ? NextResponse.json(schedule) : notFound();
+  } catch (error) {
+    console.error("Error editing session:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas zapisywania poprawki" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(request, params);
+    if ("response" in auth) return auth.response;
+
+    const schedule = await revertDay(
+      auth.isoDate,
+      getAuthor(request.nextUrl.searchParams.get("author"))
+    );
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Brak poprawek dla tej daty" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error("Error reverting day override:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas usuwania poprawek" },
+      { status: 500 }
+    );
+  }
+}
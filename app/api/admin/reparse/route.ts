@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/auth";
+import { reparseWeek } from "@/lib/ingest";
+
+/**
+ * POST /api/admin/reparse
+ *
+ * Forces a re-parse of a stored week from the archived source it was
+ * stored from
+ * Requires admin authorization (bearer token or session cookie)
+ * Body: { week: string } (DD/MM/YYYY-DD/MM/YYYY)
+ *
+ * Response: IngestResult object, or 404 if the week isn't stored
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const week = typeof body?.week === "string" ? body.week : "";
+
+    // Validate week format (DD/MM/YYYY-DD/MM/YYYY)
+    const weekPattern = /^\d{2}\/\d{2}\/\d{4}-\d{2}\/\d{2}\/\d{4}$/;
+    if (!weekPattern.test(week)) {
+      return NextResponse.json(
+        {
+          error: "Nieprawidłowy format tygodnia. Użyj DD/MM/YYYY-DD/MM/YYYY",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await reparseWeek(week);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Nie znaleziono tygodnia" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result, {
+      status: result.errors.length > 0 ? 500 : 200,
+    });
+  } catch (error) {
+    console.error("Error re-parsing week:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas ponownego przetwarzania tygodnia" },
+      { status: 500 }
+    );
+  }
+}
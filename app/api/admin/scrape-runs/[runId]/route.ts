@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/auth";
+import { getScrapeRun } from "@/lib/kv";
+
+/**
+ * GET /api/admin/scrape-runs/[runId]
+ *
+ * Returns a single scrape run with per-URL outcomes and stage timings
+ * Requires ADMIN_SECRET (or CRON_SECRET) authorization
+ *
+ * Response: ScrapeRun object, or 404 if the run doesn't exist
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { runId } = await params;
+    const run = await getScrapeRun(runId);
+
+    if (!run) {
+      return NextResponse.json(
+        { error: "Nie znaleziono przebiegu pobierania" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(run, {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("Error fetching scrape run:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas pobierania historii pobierania" },
+      { status: 500 }
+    );
+  }
+}
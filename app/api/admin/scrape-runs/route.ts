@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/auth";
+import { getScrapeRuns } from "@/lib/kv";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/admin/scrape-runs
+ *
+ * Pages through the scrape run history (newest first)
+ * Requires ADMIN_SECRET (or CRON_SECRET) authorization
+ *
+ * Query params:
+ *   - limit: Runs per page (default 20, max 100)
+ *   - offset: Number of runs to skip (default 0)
+ *
+ * Response: { runs, total, limit, offset }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const limitParam = request.nextUrl.searchParams.get("limit");
+    const offsetParam = request.nextUrl.searchParams.get("offset");
+    const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+    const offset = offsetParam === null ? 0 : Number(offsetParam);
+
+    if (
+      !Number.isInteger(limit) ||
+      !Number.isInteger(offset) ||
+      limit < 1 ||
+      limit > MAX_LIMIT ||
+      offset < 0
+    ) {
+      return NextResponse.json(
+        {
+          error: `Nieprawidłowe parametry stronicowania (limit 1-${MAX_LIMIT}, offset >= 0)`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { runs, total } = await getScrapeRuns(offset, limit);
+
+    return NextResponse.json(
+      { runs, total, limit, offset },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error fetching scrape runs:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas pobierania historii pobierania" },
+      { status: 500 }
+    );
+  }
+}
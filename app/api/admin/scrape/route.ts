@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/auth";
+import { runScrape } from "@/lib/scrape";
+
+/**
+ * POST /api/admin/scrape
+ *
+ * Triggers a scrape run from the admin dashboard
+ * Requires admin authorization (bearer token or session cookie)
+ * Bypasses the days-ahead skip check.
+ *
+ * Response: Recorded ScrapeRun object
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { run, fatal } = await runScrape("admin", { force: true });
+
+  return NextResponse.json(run, { status: fatal ? 500 : 200 });
+}
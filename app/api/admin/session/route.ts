@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ADMIN_COOKIE,
+  ADMIN_COOKIE_MAX_AGE,
+  getAdminSecret,
+  getAdminSessionToken,
+} from "@/lib/auth";
+
+/**
+ * POST /api/admin/session
+ *
+ * Logs in to the admin dashboard
+ * Body: { secret: string } (ADMIN_SECRET, or CRON_SECRET if unset)
+ *
+ * Response: { ok: true } and an httpOnly session cookie, or 401
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const secret = getAdminSecret();
+
+    if (!secret || body?.secret !== secret) {
+      return NextResponse.json(
+        { error: "Nieprawidłowe hasło" },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ ok: true });
+    response.cookies.set(ADMIN_COOKIE, getAdminSessionToken()!, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "strict",
+      path: "/",
+      maxAge: ADMIN_COOKIE_MAX_AGE,
+    });
+
+    return response;
+  } catch (error) {
+    console.error("Error creating admin session:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas logowania" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/session
+ *
+ * Logs out of the admin dashboard
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(ADMIN_COOKIE);
+  return response;
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runBackfill } from "@/lib/backfill";
+
+/**
+ * GET /api/backfill
+ *
+ * Backfills historical schedules from the blog archive
+ * Requires CRON_SECRET authorization
+ *
+ * Query params:
+ *   - until: Oldest date to backfill in YYYY-MM-DD format (required)
+ *   - reset: "1" to start again from the newest page
+ *
+ * Each call retries posts that failed earlier, then processes pages until
+ * its time budget runs out and stores progress; call again to resume until
+ * the response has completed: true.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const until = request.nextUrl.searchParams.get("until") ?? "";
+    const reset = request.nextUrl.searchParams.get("reset") === "1";
+
+    // Validate date format (YYYY-MM-DD)
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if (!datePattern.test(until)) {
+      return NextResponse.json(
+        { error: "Nieprawidłowy format daty. Użyj formatu YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const state = await runBackfill({ until, reset });
+
+    return NextResponse.json(state);
+  } catch (error) {
+    console.error("Fatal error in backfill process:", error);
+
+    return NextResponse.json(
+      {
+        error: "Wystąpił błąd podczas pobierania archiwum",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAllDaySchedules } from "@/lib/kv";
+import { buildCalendar } from "@/lib/ical";
+import { addDays, getTodayISO } from "@/lib/dates";
+
+const DEFAULT_PAST_DAYS = 30;
+const MAX_PAST_DAYS = 365;
+
+/**
+ * GET /api/calendar.ics
+ *
+ * iCalendar feed with one all-day event per training session
+ * Subscribe from Google/Apple Calendar to get new weeks automatically.
+ * Query params (optional):
+ *   - type: Only sessions of this training type family (e.g. hyrox, Athletic)
+ *     or class (e.g. "HYROX SPEED", speed-beginners); repeat or
+ *     comma-separate for several, e.g. ?type=HYROX,Athletic
+ *   - past: Days of history to include (default 30, max 365)
+ *
+ * Response: text/calendar body
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const types = searchParams
+      .getAll("type")
+      .flatMap((value) => value.split(","))
+      .map((value) => value.trim())
+      .filter(Boolean);
+
+    const pastParam = searchParams.get("past");
+    const past = pastParam === null ? DEFAULT_PAST_DAYS : Number(pastParam);
+
+    if (!Number.isInteger(past) || past < 0 || past > MAX_PAST_DAYS) {
+      return NextResponse.json(
+        { error: `Nieprawidłowy parametr past (0-${MAX_PAST_DAYS})` },
+        { status: 400 }
+      );
+    }
+
+    const from = addDays(getTodayISO(), -past);
+    const days = (await getAllDaySchedules()).filter(
+      (day) => day.isoDate && day.isoDate >= from
+    );
+
+    const calendar = buildCalendar(days, {
+      name:
+        types.length > 0
+          ? `Hardy - ${types.join(", ")}`
+          : "Hardy - Plan treningowy",
+      types,
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="hardyplan.ics"',
+        "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=7200",
+      },
+    });
+  } catch (error) {
+    console.error("Error building calendar:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas generowania kalendarza" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getExerciseFirstSeen,
+  getStoredWeeks,
+  getWeekSchedule,
+} from "@/lib/kv";
+import { buildAtomFeed, type FeedEntry } from "@/lib/feed";
+
+const MAX_ENTRIES = 20;
+
+/**
+ * GET /api/feed.xml
+ *
+ * Atom feed with one entry per stored week (newest first, up to 20)
+ * Each entry summarizes the week's sessions per day and links to the
+ * app's day pages (/?date=YYYY-MM-DD).
+ *
+ * Response: application/atom+xml body
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const baseUrl = (
+      process.env.NEXT_PUBLIC_URL || request.nextUrl.origin
+    ).replace(/\/$/, "");
+
+    const [storedWeeks, firstSeen] = await Promise.all([
+      getStoredWeeks(),
+      getExerciseFirstSeen(),
+    ]);
+    const weeks = storedWeeks.slice(0, MAX_ENTRIES);
+    const schedules = await Promise.all(
+      weeks.map((week) => getWeekSchedule(week.week, firstSeen))
+    );
+
+    const entries: FeedEntry[] = weeks.flatMap((week, index) => {
+      const schedule = schedules[index];
+      return schedule ? [{ week, schedule }] : [];
+    });
+
+    return new NextResponse(buildAtomFeed(entries, baseUrl), {
+      headers: {
+        "Content-Type": "application/atom+xml; charset=utf-8",
+        "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=7200",
+      },
+    });
+  } catch (error) {
+    console.error("Error building feed:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas generowania kanału" },
+      { status: 500 }
+    );
+  }
+}
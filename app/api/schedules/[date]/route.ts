@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getDaySchedule } from "@/lib/kv";
+import { getDaySchedule, getDayScheduleByISO } from "@/lib/kv";
+import { isValidISODate } from "@/lib/dates";
 
 /**
  * GET /api/schedules/[date]
  *
  * Returns schedule for specific date
  * Params:
- *   - date: Date in DD.MM format
+ *   - date: Date in DD.MM format (year guessed from today) or YYYY-MM-DD
  *
  * Response: DaySchedule object or null
  */
@@ -17,16 +18,21 @@ export async function GET(
   try {
     const { date } = await params;
 
-    // Validate date format (DD.MM)
+    // Validate date format (DD.MM or a real YYYY-MM-DD date)
     const datePattern = /^\d{2}\.\d{2}$/;
-    if (!datePattern.test(date)) {
+    const isISODate = isValidISODate(date);
+    if (!datePattern.test(date) && !isISODate) {
       return NextResponse.json(
-        { error: "Nieprawidłowy format daty. Użyj formatu DD.MM" },
+        {
+          error: "Nieprawidłowy format daty. Użyj formatu DD.MM lub YYYY-MM-DD",
+        },
         { status: 400 }
       );
     }
 
-    const schedule = await getDaySchedule(date);
+    const schedule = isISODate
+      ? await getDayScheduleByISO(date)
+      : await getDaySchedule(date);
 
     if (!schedule) {
       return NextResponse.json(null, {
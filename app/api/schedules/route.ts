@@ -1,23 +1,95 @@
-import { NextResponse } from "next/server";
-import { getAllDaySchedules } from "@/lib/kv";
+import { NextRequest, NextResponse } from "next/server";
+import { getAllDaySchedules, queryDaySchedules } from "@/lib/kv";
+import { isValidISODate } from "@/lib/dates";
+
+const DEFAULT_LIMIT = 31;
+const MAX_LIMIT = 100;
 
 /**
  * GET /api/schedules
  *
- * Returns all day schedules (day-based storage)
+ * Returns day schedules (day-based storage)
+ * Query params (all optional):
+ *   - from: First date to include (YYYY-MM-DD)
+ *   - to: Last date to include (YYYY-MM-DD)
+ *   - type: Only sessions whose type contains this text (case-insensitive);
+ *     days without matching sessions are left out
+ *   - limit: Days per page (default 31, max 100)
+ *   - offset: Number of days to skip (default 0)
  *
- * Response: Array of DaySchedule objects
+ * Response:
+ *   - Without query params: Array of all DaySchedule objects (newest first)
+ *   - With any query param: { days, total, limit, offset } (oldest first)
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Get all day schedules (new day-based storage)
-    const schedules = await getAllDaySchedules();
+    const searchParams = request.nextUrl.searchParams;
+
+    if (searchParams.size === 0) {
+      // Get all day schedules (new day-based storage)
+      const schedules = await getAllDaySchedules();
+
+      return NextResponse.json(schedules, {
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      });
+    }
+
+    const from = searchParams.get("from") ?? undefined;
+    const to = searchParams.get("to") ?? undefined;
+    const type = searchParams.get("type")?.trim() || undefined;
+
+    if (
+      (from && !isValidISODate(from)) ||
+      (to && !isValidISODate(to)) ||
+      (from && to && from > to)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Nieprawidłowy zakres dat. Użyj formatu YYYY-MM-DD (from <= to)",
+        },
+        { status: 400 }
+      );
+    }
 
-    return NextResponse.json(schedules, {
-      headers: {
-        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
-      },
+    const limitParam = searchParams.get("limit");
+    const offsetParam = searchParams.get("offset");
+    const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+    const offset = offsetParam === null ? 0 : Number(offsetParam);
+
+    if (
+      !Number.isInteger(limit) ||
+      !Number.isInteger(offset) ||
+      limit < 1 ||
+      limit > MAX_LIMIT ||
+      offset < 0
+    ) {
+      return NextResponse.json(
+        {
+          error: `Nieprawidłowe parametry stronicowania (limit 1-${MAX_LIMIT}, offset >= 0)`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { days, total } = await queryDaySchedules({
+      from,
+      to,
+      type,
+      offset,
+      limit,
     });
+
+    return NextResponse.json(
+      { days, total, limit, offset },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
   } catch (error) {
     console.error("Error fetching schedules:", error);
 
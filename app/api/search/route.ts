@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchSessions } from "@/lib/kv";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * GET /api/search
+ *
+ * Searches exercises, training types and methods across all stored days
+ * Polish diacritics are ignored ("cwiczenia" matches "ćwiczenia") and
+ * dictionary abbreviations are understood ("wb" matches "Wall balls").
+ * Query params:
+ *   - q: Search text (required)
+ *   - limit: Maximum results (default 50, max 200)
+ *
+ * Response: { query, results, total } with results most recent first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const query = searchParams.get("q")?.trim() ?? "";
+
+    if (!query) {
+      return NextResponse.json(
+        { error: "Podaj szukany tekst w parametrze q" },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `Nieprawidłowy limit (1-${MAX_LIMIT})` },
+        { status: 400 }
+      );
+    }
+
+    const { results, total } = await searchSessions(query, limit);
+
+    return NextResponse.json(
+      { query, results, total },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error searching schedules:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas wyszukiwania" },
+      { status: 500 }
+    );
+  }
+}
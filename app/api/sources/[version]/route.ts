@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSourceVersion } from "@/lib/kv";
+
+/**
+ * GET /api/sources/[version]
+ *
+ * Returns the raw markdown of an archived blog post version
+ * Params:
+ *   - version: Source version ID (see DaySchedule.sourceVersion)
+ *
+ * Response: text/markdown body, or 404 if the version doesn't exist
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ version: string }> }
+) {
+  try {
+    const { version } = await params;
+    const source = await getSourceVersion(version);
+
+    if (!source) {
+      return NextResponse.json(
+        { error: "Nie znaleziono wersji źródła" },
+        { status: 404 }
+      );
+    }
+
+    // Versions are immutable, so they can be cached indefinitely
+    return new NextResponse(source.markdown, {
+      headers: {
+        "Content-Type": "text/markdown; charset=utf-8",
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "X-Source-Url": encodeURI(source.url),
+        "X-Fetched-At": source.fetchedAt,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching source version:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas pobierania wersji źródła" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSourceVersion } from "@/lib/kv";
+import { isAdminRequest } from "@/lib/auth";
+import { diffLines, formatDiff, MAX_DIFF_LINES } from "@/lib/diff";
+
+/**
+ * GET /api/sources/diff
+ *
+ * Returns a line diff between two archived versions of the same blog post
+ * Requires ADMIN_SECRET (or CRON_SECRET) authorization
+ *
+ * Query params:
+ *   - from: Older source version ID
+ *   - to: Newer source version ID
+ *   - format: "json" (default) or "text" for a unified-style diff
+ *
+ * Response: { url, from, to, added, removed, changes } or text/plain diff
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const fromId = request.nextUrl.searchParams.get("from");
+    const toId = request.nextUrl.searchParams.get("to");
+    const format = request.nextUrl.searchParams.get("format") ?? "json";
+
+    if (!fromId || !toId) {
+      return NextResponse.json(
+        { error: "Brak parametrów from i to" },
+        { status: 400 }
+      );
+    }
+
+    const [from, to] = await Promise.all([
+      getSourceVersion(fromId),
+      getSourceVersion(toId),
+    ]);
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: "Nie znaleziono wersji źródła" },
+        { status: 404 }
+      );
+    }
+
+    if (from.url !== to.url) {
+      return NextResponse.json(
+        { error: "Wersje pochodzą z różnych wpisów" },
+        { status: 400 }
+      );
+    }
+
+    const changes = diffLines(from.markdown, to.markdown);
+    if (!changes) {
+      return NextResponse.json(
+        {
+          error: `Wersje są zbyt długie do porównania (maks. ${MAX_DIFF_LINES} linii)`,
+        },
+        { status: 413 }
+      );
+    }
+
+    if (format === "text") {
+      return new NextResponse(formatDiff(changes), {
+        headers: { "Content-Type": "text/plain; charset=utf-8" },
+      });
+    }
+
+    return NextResponse.json({
+      url: from.url,
+      from: from.id,
+      to: to.id,
+      added: changes.filter((c) => c.type === "added").length,
+      removed: changes.filter((c) => c.type === "removed").length,
+      changes,
+    });
+  } catch (error) {
+    console.error("Error diffing source versions:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas porównywania wersji źródła" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSourceVersions } from "@/lib/kv";
+
+/**
+ * GET /api/sources
+ *
+ * Lists archived versions of a blog post
+ * Query params:
+ *   - url: Blog post URL (required)
+ *
+ * Response: Array of source versions (without markdown), newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = request.nextUrl.searchParams.get("url");
+
+    if (!url) {
+      return NextResponse.json(
+        { error: "Brak parametru url" },
+        { status: 400 }
+      );
+    }
+
+    const versions = await getSourceVersions(url);
+
+    return NextResponse.json(versions);
+  } catch (error) {
+    console.error("Error listing source versions:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas pobierania wersji źródła" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAllDaySchedules } from "@/lib/kv";
+import { isValidISODate } from "@/lib/dates";
+import { computeExerciseStats } from "@/lib/exercise-stats";
+
+/**
+ * GET /api/stats/exercises
+ *
+ * Exercise statistics computed from the stored day schedules: sessions per
+ * month, training types, first/last appearance and most common pairings
+ * Query params (all optional):
+ *   - from: First date to include (YYYY-MM-DD)
+ *   - to: Last date to include (YYYY-MM-DD)
+ *
+ * Response: ExerciseStatsReport, exercises sorted by number of sessions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const from = searchParams.get("from") ?? undefined;
+    const to = searchParams.get("to") ?? undefined;
+
+    if (
+      (from && !isValidISODate(from)) ||
+      (to && !isValidISODate(to)) ||
+      (from && to && from > to)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Nieprawidłowy zakres dat. Użyj formatu YYYY-MM-DD (from <= to)",
+        },
+        { status: 400 }
+      );
+    }
+
+    const days = (await getAllDaySchedules()).filter(
+      (day) =>
+        day.isoDate &&
+        (!from || day.isoDate >= from) &&
+        (!to || day.isoDate <= to)
+    );
+
+    return NextResponse.json(computeExerciseStats(days), {
+      headers: {
+        "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=7200",
+      },
+    });
+  } catch (error) {
+    console.error("Error computing exercise stats:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas liczenia statystyk ćwiczeń" },
+      { status: 500 }
+    );
+  }
+}
+
+// Enable caching for 1 hour
+export const revalidate = 3600;
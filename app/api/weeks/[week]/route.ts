@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findWeekByStart, getWeekSchedule } from "@/lib/kv";
+import { isValidISODate } from "@/lib/dates";
+
+/**
+ * GET /api/weeks/[week]
+ *
+ * Returns a full week schedule reassembled from day storage
+ * Params:
+ *   - week: First day of the week (YYYY-MM-DD), e.g. 2025-10-13
+ *
+ * Response: WeekSchedule object, or 404 if the week isn't stored
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ week: string }> }
+) {
+  try {
+    const { week: start } = await params;
+
+    if (!isValidISODate(start)) {
+      return NextResponse.json(
+        {
+          error: "Nieprawidłowy tydzień. Użyj daty początku YYYY-MM-DD",
+        },
+        { status: 400 }
+      );
+    }
+
+    const week = await findWeekByStart(start);
+    const schedule = week ? await getWeekSchedule(week) : null;
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Nie znaleziono tygodnia" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(schedule, {
+      headers: {
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching week schedule:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas pobierania tygodnia" },
+      { status: 500 }
+    );
+  }
+}
+
+// Enable caching for 5 minutes
+export const revalidate = 300;
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getWeekSummaries } from "@/lib/kv";
+
+/**
+ * GET /api/weeks
+ *
+ * Lists stored weeks with their start dates and day counts
+ * Days of a week are loaded from /api/weeks/{YYYY-MM-DD} (its start date).
+ *
+ * Response: Array of WeekSummary objects, most recent week first
+ */
+export async function GET() {
+  try {
+    const weeks = await getWeekSummaries();
+
+    return NextResponse.json(weeks, {
+      headers: {
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching weeks:", error);
+
+    return NextResponse.json(
+      { error: "Wystąpił błąd podczas pobierania tygodni" },
+      { status: 500 }
+    );
+  }
+}
+
+// Enable caching for 5 minutes
+export const revalidate = 300;
@@ -16,6 +16,11 @@ export const metadata: Metadata = {
   title: "Co dziś w Hardym? - Plan Treningowy",
   description:
     "Codzienne plany treningowe w Hardy Wyższa Forma - automatycznie aktualizowane",
+  alternates: {
+    types: {
+      "application/atom+xml": "/api/feed.xml",
+    },
+  },
 };
 
 export const viewport = {
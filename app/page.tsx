@@ -1,46 +1,64 @@
+import Link from "next/link";
 import { ScheduleViewerV2 } from "@/components/schedule-viewer-v2";
-import { getTodaySchedule } from "@/lib/kv";
+import { Button } from "@/components/ui/button";
+import { getDayScheduleByISO, getTodaySchedule } from "@/lib/kv";
+import { getTodayDayMonth, isoToDayMonth, isValidISODate } from "@/lib/dates";
+import { ChartColumn, Search } from "lucide-react";
 
-async function getInitialSchedule() {
+async function getInitialSchedule(isoDate?: string) {
   try {
     // Call database directly instead of HTTP fetch for server-side rendering
-    const schedule = await getTodaySchedule();
+    if (isoDate) {
+      const schedule = await getDayScheduleByISO(isoDate);
+      return { schedule, date: schedule?.date || isoToDayMonth(isoDate) };
+    }
 
-    const date =
-      schedule?.date ||
-      new Date()
-        .toLocaleDateString("pl-PL", {
-          day: "2-digit",
-          month: "2-digit",
-        })
-        .replace(/\//g, ".");
+    const schedule = await getTodaySchedule();
+    const date = schedule?.date || getTodayDayMonth();
 
     return { schedule, date };
   } catch (error) {
     console.error("Failed to fetch today's schedule:", error);
     return {
       schedule: null,
-      date: new Date()
-        .toLocaleDateString("pl-PL", {
-          day: "2-digit",
-          month: "2-digit",
-        })
-        .replace(/\//g, "."),
+      date: getTodayDayMonth(),
     };
   }
 }
 
-export default async function Home() {
-  const { schedule, date } = await getInitialSchedule();
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ date?: string | string[] }>;
+}) {
+  // Day pages: /?date=YYYY-MM-DD (linked from the feed)
+  const { date: dateParam } = await searchParams;
+  const requestedDate =
+    typeof dateParam === "string" && isValidISODate(dateParam)
+      ? dateParam
+      : undefined;
+  const { schedule, date } = await getInitialSchedule(requestedDate);
 
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
       <header className="border-b sticky top-0 z-50 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
-        <div className="container mx-auto px-4 py-5 sm:py-6 text-center">
+        <div className="container mx-auto px-4 py-5 sm:py-6 text-center relative">
           <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">
             Co dziś w Hardym?
           </h1>
+          <div className="absolute right-4 top-1/2 -translate-y-1/2 flex">
+            <Button asChild variant="ghost" size="icon">
+              <Link href="/stats" aria-label="Statystyki ćwiczeń">
+                <ChartColumn />
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="icon">
+              <Link href="/search" aria-label="Szukaj w planach">
+                <Search />
+              </Link>
+            </Button>
+          </div>
         </div>
       </header>
 
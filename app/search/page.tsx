@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { ScheduleSearch } from "@/components/schedule-search";
+
+export const metadata: Metadata = {
+  title: "Szukaj - Co dziś w Hardym?",
+};
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string | string[] }>;
+}) {
+  const { q } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b sticky top-0 z-50 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-5 sm:py-6 text-center">
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">
+            Szukaj w planach
+          </h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-3 sm:px-4 lg:px-6 py-6 sm:py-8 max-w-3xl space-y-4">
+        <Link
+          href="/"
+          className="inline-block text-sm text-muted-foreground underline"
+        >
+          ← Plan na dziś
+        </Link>
+        <ScheduleSearch initialQuery={typeof q === "string" ? q : ""} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { ExerciseStatsView } from "@/components/exercise-stats-view";
+import { getAllDaySchedules } from "@/lib/kv";
+import { computeExerciseStats } from "@/lib/exercise-stats";
+
+export const metadata: Metadata = {
+  title: "Statystyki ćwiczeń - Co dziś w Hardym?",
+};
+
+// Recompute at most once an hour
+export const revalidate = 3600;
+
+export default async function StatsPage() {
+  // Call database directly instead of HTTP fetch for server-side rendering
+  const report = computeExerciseStats(await getAllDaySchedules());
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b sticky top-0 z-50 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-5 sm:py-6 text-center">
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">
+            Statystyki ćwiczeń
+          </h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-3 sm:px-4 lg:px-6 py-6 sm:py-8 max-w-3xl space-y-4">
+        <Link
+          href="/"
+          className="inline-block text-sm text-muted-foreground underline"
+        >
+          ← Plan na dziś
+        </Link>
+        <ExerciseStatsView report={report} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,404 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ReviewQueueEntry, ScrapeRun, StoredWeek } from "@/lib/types";
+import { LogOut, Pencil, RefreshCw, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatWarsawDateTime, parseWeekId } from "@/lib/dates";
+
+interface AdminDay {
+  isoDate: string;
+  date: string;
+  dayName: string;
+  sessionCount: number;
+  overridden: boolean;
+}
+
+interface AdminDashboardProps {
+  runs: ScrapeRun[];
+  coverage: { shouldSkip: boolean; reason: string; daysAhead: number };
+  latestUpdate: number | null;
+  weeks: StoredWeek[];
+  unknownTypes: ReviewQueueEntry[];
+  unmatchedExercises: ReviewQueueEntry[];
+  unparsedDurations: ReviewQueueEntry[];
+  days: AdminDay[];
+}
+
+const STATUS_LABELS: Record<ScrapeRun["status"], string> = {
+  success: "Sukces",
+  partial: "Częściowo",
+  failed: "Błąd",
+  skipped: "Pominięto",
+};
+
+const STATUS_STYLES: Record<ScrapeRun["status"], string> = {
+  success: "bg-green-100 text-green-800 border-green-200",
+  partial: "bg-amber-100 text-amber-800 border-amber-200",
+  failed: "bg-red-100 text-red-800 border-red-200",
+  skipped: "bg-muted text-muted-foreground",
+};
+
+// Raw values waiting to be added to a dictionary
+function ReviewQueueCard({
+  title,
+  emptyText,
+  entries,
+}: {
+  title: string;
+  emptyText: string;
+  entries: ReviewQueueEntry[];
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{emptyText}</p>
+        ) : (
+          <ul className="divide-y">
+            {entries.map((entry) => (
+              <li key={entry.value} className="py-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium break-words">
+                    {entry.value}
+                  </span>
+                  <Badge variant="outline">{entry.occurrences}×</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Ostatnio: {entry.lastWeek} (
+                  {formatWarsawDateTime(entry.lastSeen)})
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function AdminDashboard({
+  runs,
+  coverage,
+  latestUpdate,
+  weeks,
+  unknownTypes,
+  unmatchedExercises,
+  unparsedDurations,
+  days,
+}: AdminDashboardProps) {
+  const router = useRouter();
+  const [pending, setPending] = useState<string | null>(null);
+  const [message, setMessage] = useState<{
+    text: string;
+    error: boolean;
+  } | null>(null);
+
+  // Run an admin action and reload server data on success
+  async function runAction(
+    key: string,
+    request: () => Promise<Response>,
+    successText: string
+  ) {
+    setPending(key);
+    setMessage(null);
+    try {
+      const res = await request();
+      const data = await res.json().catch(() => ({}));
+
+      if (res.ok) {
+        setMessage({ text: successText, error: false });
+      } else {
+        setMessage({
+          text: data.error ?? data.errors?.[0] ?? `Błąd (${res.status})`,
+          error: true,
+        });
+      }
+      router.refresh();
+    } catch (error) {
+      console.error(`Admin action ${key} failed:`, error);
+      setMessage({ text: "Nie udało się wykonać akcji", error: true });
+    } finally {
+      setPending(null);
+    }
+  }
+
+  function triggerScrape() {
+    runAction(
+      "scrape",
+      () => fetch("/api/admin/scrape", { method: "POST" }),
+      "Pobieranie zakończone"
+    );
+  }
+
+  function reparseWeek(week: string) {
+    runAction(
+      `reparse:${week}`,
+      () =>
+        fetch("/api/admin/reparse", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ week }),
+        }),
+      `Tydzień ${week} przetworzony ponownie`
+    );
+  }
+
+  function deleteDay(day: AdminDay) {
+    if (!confirm(`Usunąć plan na ${day.date} (${day.dayName})?`)) return;
+
+    runAction(
+      `delete:${day.isoDate}`,
+      () => fetch(`/api/admin/days/${day.isoDate}`, { method: "DELETE" }),
+      `Usunięto ${day.date}`
+    );
+  }
+
+  async function logout() {
+    await fetch("/api/admin/session", { method: "DELETE" });
+    router.refresh();
+  }
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div
+          role="status"
+          className={cn(
+            "rounded-lg border px-4 py-3 text-sm",
+            message.error
+              ? "border-red-200 bg-red-50 text-red-800"
+              : "border-green-200 bg-green-50 text-green-800"
+          )}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {/* Status overview */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Stan</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <dl className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-muted-foreground">Dni do przodu</dt>
+              <dd className="text-2xl font-semibold">{coverage.daysAhead}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Ostatnia aktualizacja</dt>
+              <dd className="text-base font-medium">
+                {latestUpdate ? formatWarsawDateTime(latestUpdate) : "—"}
+              </dd>
+            </div>
+          </dl>
+          <p className="text-xs text-muted-foreground">{coverage.reason}</p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button
+              className="h-11 sm:flex-1"
+              onClick={triggerScrape}
+              disabled={pending !== null}
+            >
+              <RefreshCw
+                className={cn(pending === "scrape" && "animate-spin")}
+              />
+              {pending === "scrape" ? "Pobieranie..." : "Uruchom pobieranie"}
+            </Button>
+            <Button variant="outline" className="h-11" onClick={logout}>
+              <LogOut />
+              Wyloguj
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Recent scrape runs */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Ostatnie uruchomienia</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Brak uruchomień</p>
+          ) : (
+            <ul className="divide-y">
+              {runs.map((run) => (
+                <li key={run.runId} className="py-3 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">
+                      {formatWarsawDateTime(run.startedAt)}
+                    </span>
+                    <Badge
+                      variant="outline"
+                      className={STATUS_STYLES[run.status]}
+                    >
+                      {STATUS_LABELS[run.status]}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {run.trigger} · {(run.durationMs / 1000).toFixed(1)} s ·{" "}
+                    {run.storedWeeks.length} zapisanych,{" "}
+                    {run.skippedWeeks.length} bez zmian,{" "}
+                    {run.changedDays.length} zmienionych dni
+                    {run.unknownTypes && run.unknownTypes.length > 0 && (
+                      <> · {run.unknownTypes.length} nieznanych typów</>
+                    )}
+                    {run.unmatchedExercises &&
+                      run.unmatchedExercises.length > 0 && (
+                        <>
+                          {" "}
+                          · {run.unmatchedExercises.length} nierozpoznanych
+                          ćwiczeń
+                        </>
+                      )}
+                    {run.unparsedDurations &&
+                      run.unparsedDurations.length > 0 && (
+                        <>
+                          {" "}
+                          · {run.unparsedDurations.length} nieodczytanych
+                          czasów
+                        </>
+                      )}
+                  </p>
+                  {run.skipReason && (
+                    <p className="text-xs text-muted-foreground">
+                      {run.skipReason}
+                    </p>
+                  )}
+                  {run.errors.map((error, idx) => (
+                    <p key={idx} className="text-xs text-red-700 break-words">
+                      {error}
+                    </p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Raw values missing from the taxonomy, exercise dictionary and
+          duration parser */}
+      <ReviewQueueCard
+        title="Nieznane typy treningów"
+        emptyText="Wszystkie typy są rozpoznane"
+        entries={unknownTypes}
+      />
+      <ReviewQueueCard
+        title="Nierozpoznane ćwiczenia"
+        emptyText="Wszystkie ćwiczenia są w słowniku"
+        entries={unmatchedExercises}
+      />
+      <ReviewQueueCard
+        title="Nieodczytane czasy trwania"
+        emptyText="Wszystkie czasy trwania są odczytane"
+        entries={unparsedDurations}
+      />
+
+      {/* Stored weeks */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Zapisane tygodnie</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {weeks.length === 0 && (
+            <p className="text-sm text-muted-foreground">Brak tygodni</p>
+          )}
+          {weeks.map((week) => {
+            const bounds = parseWeekId(week.week);
+            const weekDays = days
+              .filter(
+                (day) =>
+                  !!bounds &&
+                  day.isoDate >= bounds.start &&
+                  day.isoDate <= bounds.end
+              )
+              .sort((a, b) => a.isoDate.localeCompare(b.isoDate));
+
+            return (
+              <div key={week.week} className="rounded-lg border p-3 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium">{week.week}</p>
+                    <a
+                      href={week.sourceUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block text-xs text-muted-foreground underline truncate"
+                    >
+                      {week.sourceUrl}
+                    </a>
+                    <p className="text-xs text-muted-foreground">
+                      Pobrano {formatWarsawDateTime(week.scrapedAt)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-9 shrink-0"
+                    onClick={() => reparseWeek(week.week)}
+                    disabled={pending !== null}
+                  >
+                    <RefreshCw
+                      className={cn(
+                        pending === `reparse:${week.week}` && "animate-spin"
+                      )}
+                    />
+                    Przetwórz
+                  </Button>
+                </div>
+                {weekDays.length > 0 && (
+                  <ul className="divide-y border-t">
+                    {weekDays.map((day) => (
+                      <li
+                        key={day.isoDate}
+                        className="flex items-center justify-between gap-2 pt-2"
+                      >
+                        <span className="text-sm">
+                          {day.date} {day.dayName}
+                          <span className="text-muted-foreground">
+                            {" "}
+                            · {day.sessionCount} tren.
+                            {day.overridden && " · poprawiony"}
+                          </span>
+                        </span>
+                        <div className="flex shrink-0">
+                          <Button variant="ghost" size="icon" asChild>
+                            <Link
+                              href={`/admin/days/${day.isoDate}`}
+                              aria-label={`Edytuj ${day.date}`}
+                            >
+                              <Pencil />
+                            </Link>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Usuń ${day.date}`}
+                            onClick={() => deleteDay(day)}
+                            disabled={pending !== null}
+                          >
+                            <Trash2 className="text-red-600" />
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
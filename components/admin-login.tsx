@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+export function AdminLogin() {
+  const router = useRouter();
+  const [secret, setSecret] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ secret }),
+      });
+
+      if (res.ok) {
+        router.refresh();
+      } else {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error ?? "Nie udało się zalogować");
+      }
+    } catch (error) {
+      console.error("Failed to log in:", error);
+      setError("Nie udało się zalogować");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <Card className="max-w-sm mx-auto">
+      <CardHeader>
+        <CardTitle>Zaloguj się</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            type="password"
+            autoComplete="current-password"
+            placeholder="Hasło administratora"
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            className="w-full h-11 rounded-md border bg-background px-3 text-base focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button
+            type="submit"
+            className="w-full h-11"
+            disabled={loading || !secret}
+          >
+            {loading ? "Logowanie..." : "Zaloguj"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,27 +1,47 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { TrainingSession } from "@/lib/types";
-import { ChevronDown, ChevronRight, Clock, Dumbbell, Zap } from "lucide-react";
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  Dumbbell,
+  PencilLine,
+  Timer,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
+import { HighlightBadges } from "@/components/highlight-badges";
+import { WorkoutTimer } from "@/components/workout-timer";
+import { buildTimerPlan } from "@/lib/workout-timer";
+import { DurationRank } from "@/lib/durations";
 
 interface CollapsibleTrainingCardProps {
   session: TrainingSession;
   defaultExpanded?: boolean;
+  durationRank?: DurationRank; // Shortest or longest session of the day
 }
 
+const DURATION_RANK_LABELS: Record<DurationRank, string> = {
+  shortest: "Najkrótszy",
+  longest: "Najdłuższy",
+};
+
 export function CollapsibleTrainingCard({
   session,
   defaultExpanded = false,
+  durationRank,
 }: CollapsibleTrainingCardProps) {
   const [isExpanded, setIsExpanded] = useState(defaultExpanded);
-
-  // Check if session includes "skakanka"
-  const hasSkakanka = session.exercises.some((exercise) =>
-    exercise.toLowerCase().includes("skakanka")
+  const [timerOpen, setTimerOpen] = useState(false);
+  const canStartTimer = useMemo(
+    () => buildTimerPlan(session).length > 0,
+    [session]
   );
 
   return (
@@ -63,25 +83,41 @@ export function CollapsibleTrainingCard({
                 <h3 className="font-bold text-xl sm:text-2xl leading-tight">
                   {session.type}
                 </h3>
-                {hasSkakanka && (
-                  <motion.div
-                    initial={{ scale: 0, rotate: -10 }}
-                    animate={{ scale: 1, rotate: 0 }}
-                    transition={{
-                      type: "spring",
-                      stiffness: 260,
-                      damping: 20,
-                      delay: 0.1,
-                    }}
+                <HighlightBadges session={session} />
+                {durationRank && (
+                  <Badge
+                    variant="outline"
+                    className="flex items-center gap-1 px-2 py-0.5"
+                    title={`${DURATION_RANK_LABELS[durationRank]} trening dnia`}
                   >
-                    <Badge
-                      variant="default"
-                      className="bg-orange-500 hover:bg-orange-600 text-white flex items-center gap-1 px-2 py-0.5"
-                    >
-                      <Zap className="h-3 w-3" />
-                      <span className="text-xs font-bold">Skakanka!</span>
-                    </Badge>
-                  </motion.div>
+                    <Clock className="h-3 w-3" />
+                    <span className="text-xs font-bold">
+                      {DURATION_RANK_LABELS[durationRank]} ·{" "}
+                      {session.mainPartDuration}
+                    </span>
+                  </Badge>
+                )}
+                {session.verification?.flagged && (
+                  <Badge
+                    variant="outline"
+                    className="border-yellow-500 text-yellow-700 flex items-center gap-1 px-2 py-0.5"
+                    title={`Nie znaleziono w źródle: ${session.verification.unmatched.join(
+                      ", "
+                    )}`}
+                  >
+                    <AlertTriangle className="h-3 w-3" />
+                    <span className="text-xs font-bold">Do sprawdzenia</span>
+                  </Badge>
+                )}
+                {session.edited && (
+                  <Badge
+                    variant="outline"
+                    className="flex items-center gap-1 px-2 py-0.5"
+                    title="Poprawione ręcznie"
+                  >
+                    <PencilLine className="h-3 w-3" />
+                    <span className="text-xs font-bold">Poprawione</span>
+                  </Badge>
                 )}
               </div>
 
@@ -155,12 +191,27 @@ export function CollapsibleTrainingCard({
                       </p>
                     </div>
                   </div>
+
+                  {/* Interval timer for training at home */}
+                  {canStartTimer && (
+                    <Button
+                      className="w-full h-11"
+                      onClick={() => setTimerOpen(true)}
+                    >
+                      <Timer />
+                      Uruchom timer
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </motion.div>
           )}
         </AnimatePresence>
       </Card>
+
+      {timerOpen && (
+        <WorkoutTimer session={session} onClose={() => setTimerOpen(false)} />
+      )}
     </motion.div>
   );
 }
@@ -0,0 +1,419 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DaySchedule, OverrideAuditEntry, SessionEdit } from "@/lib/types";
+import { Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatWarsawDateTime } from "@/lib/dates";
+
+interface DayOverrideEditorProps {
+  isoDate: string;
+  schedule: DaySchedule;
+  hasOverride: boolean;
+  history: OverrideAuditEntry[];
+}
+
+// Session as edited in the form (exercises as one per line)
+interface SessionDraft {
+  type: string;
+  exercises: string;
+  trainingMethod: string;
+  mainPartDuration: string;
+}
+
+const AUTHOR_STORAGE_KEY = "hardyplan_admin_author";
+
+const ACTION_LABELS: Record<OverrideAuditEntry["action"], string> = {
+  replace_day: "Zmiana dnia",
+  edit_session: "Zmiana treningu",
+  revert: "Przywrócenie oryginału",
+};
+
+const FIELD_LABELS: Record<keyof SessionEdit, string> = {
+  type: "typ",
+  exercises: "ćwiczenia",
+  trainingMethod: "metoda",
+  mainPartDuration: "czas",
+};
+
+function toDraft(session: SessionEdit): SessionDraft {
+  return {
+    type: session.type,
+    exercises: session.exercises.join("\n"),
+    trainingMethod: session.trainingMethod,
+    mainPartDuration: session.mainPartDuration,
+  };
+}
+
+function fromDraft(draft: SessionDraft): SessionEdit {
+  return {
+    type: draft.type.trim(),
+    exercises: draft.exercises
+      .split("\n")
+      .map((exercise) => exercise.trim())
+      .filter(Boolean),
+    trainingMethod: draft.trainingMethod.trim(),
+    mainPartDuration: draft.mainPartDuration.trim(),
+  };
+}
+
+// Fields that differ between two versions of a session
+function changedFields(
+  before: SessionEdit | undefined,
+  after: SessionEdit | undefined
+): Array<keyof SessionEdit> {
+  if (!before || !after) return [];
+  return (Object.keys(FIELD_LABELS) as Array<keyof SessionEdit>).filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+}
+
+// Short description of an audit entry
+function describeEntry(entry: OverrideAuditEntry): string[] {
+  const before = entry.before ?? [];
+  const after = entry.after ?? [];
+  const lines: string[] = [];
+
+  if (before.length !== after.length) {
+    lines.push(`Liczba treningów: ${before.length} → ${after.length}`);
+  }
+
+  after.forEach((session, idx) => {
+    const fields = changedFields(before[idx], session);
+    if (fields.length > 0) {
+      lines.push(
+        `${session.type || `Trening ${idx + 1}`}: ${fields
+          .map((field) => FIELD_LABELS[field])
+          .join(", ")}`
+      );
+    }
+  });
+
+  return lines;
+}
+
+export function DayOverrideEditor({
+  isoDate,
+  schedule,
+  hasOverride,
+  history,
+}: DayOverrideEditorProps) {
+  const router = useRouter();
+  const initial = schedule.trainingSessions.map(toDraft);
+  const [drafts, setDrafts] = useState<SessionDraft[]>(initial);
+  const [author, setAuthor] = useState("");
+  const [pending, setPending] = useState<string | null>(null);
+  const [message, setMessage] = useState<{
+    text: string;
+    error: boolean;
+  } | null>(null);
+
+  // Remember who is editing between visits
+  useEffect(() => {
+    setAuthor(localStorage.getItem(AUTHOR_STORAGE_KEY) ?? "");
+  }, []);
+
+  // Reset the form when the saved schedule changes
+  useEffect(() => {
+    setDrafts(schedule.trainingSessions.map(toDraft));
+  }, [schedule]);
+
+  // Per-session saves only make sense while the session list is unchanged
+  const structureChanged = drafts.length !== initial.length;
+
+  function updateDraft(
+    index: number,
+    field: keyof SessionDraft,
+    value: string
+  ) {
+    setDrafts((current) =>
+      current.map((draft, i) =>
+        i === index ? { ...draft, [field]: value } : draft
+      )
+    );
+  }
+
+  async function submit(
+    key: string,
+    init: RequestInit,
+    successText: string,
+    query = ""
+  ) {
+    setPending(key);
+    setMessage(null);
+    localStorage.setItem(AUTHOR_STORAGE_KEY, author);
+    try {
+      const res = await fetch(`/api/admin/overrides/${isoDate}${query}`, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = await res.json().catch(() => ({}));
+
+      if (res.ok) {
+        setMessage({ text: successText, error: false });
+        router.refresh();
+      } else {
+        setMessage({
+          text: data.error ?? `Błąd (${res.status})`,
+          error: true,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to save override:", error);
+      setMessage({ text: "Nie udało się zapisać poprawki", error: true });
+    } finally {
+      setPending(null);
+    }
+  }
+
+  function saveSession(index: number) {
+    const before = fromDraft(initial[index]);
+    const after = fromDraft(drafts[index]);
+    const changes = Object.fromEntries(
+      changedFields(before, after).map((field) => [field, after[field]])
+    );
+
+    submit(
+      `session:${index}`,
+      { method: "PATCH", body: JSON.stringify({ index, changes, author }) },
+      "Zapisano trening"
+    );
+  }
+
+  function saveDay() {
+    submit(
+      "day",
+      {
+        method: "PUT",
+        body: JSON.stringify({
+          trainingSessions: drafts.map(fromDraft),
+          author,
+        }),
+      },
+      "Zapisano dzień"
+    );
+  }
+
+  function revert() {
+    if (!confirm("Usunąć wszystkie poprawki i przywrócić oryginał?")) return;
+
+    submit(
+      "revert",
+      { method: "DELETE" },
+      "Przywrócono oryginał",
+      `?author=${encodeURIComponent(author)}`
+    );
+  }
+
+  const inputClass =
+    "w-full rounded-md border bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-primary";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <span className="inline-block px-2 py-0.5 rounded-lg bg-muted text-lg font-semibold tracking-wide">
+          {schedule.date}
+        </span>
+        <h2 className="text-2xl font-bold tracking-tight">
+          {schedule.dayName}
+        </h2>
+        {hasOverride && <Badge variant="outline">Poprawiony</Badge>}
+      </div>
+
+      {message && (
+        <div
+          role="status"
+          className={cn(
+            "rounded-lg border px-4 py-3 text-sm",
+            message.error
+              ? "border-red-200 bg-red-50 text-red-800"
+              : "border-green-200 bg-green-50 text-green-800"
+          )}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <label className="block space-y-1">
+        <span className="text-sm text-muted-foreground">Autor zmian</span>
+        <input
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+          placeholder="admin"
+          className={inputClass}
+        />
+      </label>
+
+      {drafts.map((draft, index) => (
+        <Card key={index}>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-2">
+              <span>Trening {index + 1}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Usuń trening ${index + 1}`}
+                onClick={() =>
+                  setDrafts((current) => current.filter((_, i) => i !== index))
+                }
+                disabled={pending !== null}
+              >
+                <Trash2 className="text-red-600" />
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <label className="block space-y-1">
+              <span className="text-sm text-muted-foreground">Typ</span>
+              <input
+                value={draft.type}
+                onChange={(e) => updateDraft(index, "type", e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-sm text-muted-foreground">
+                Ćwiczenia (jedno w linii)
+              </span>
+              <textarea
+                value={draft.exercises}
+                rows={Math.max(3, draft.exercises.split("\n").length)}
+                onChange={(e) =>
+                  updateDraft(index, "exercises", e.target.value)
+                }
+                className={inputClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-sm text-muted-foreground">
+                Metoda treningowa
+              </span>
+              <input
+                value={draft.trainingMethod}
+                onChange={(e) =>
+                  updateDraft(index, "trainingMethod", e.target.value)
+                }
+                className={inputClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-sm text-muted-foreground">
+                Czas części głównej
+              </span>
+              <input
+                value={draft.mainPartDuration}
+                onChange={(e) =>
+                  updateDraft(index, "mainPartDuration", e.target.value)
+                }
+                className={inputClass}
+              />
+            </label>
+            {!structureChanged && (
+              <Button
+                variant="outline"
+                className="w-full h-11"
+                onClick={() => saveSession(index)}
+                disabled={
+                  pending !== null ||
+                  changedFields(
+                    fromDraft(initial[index]),
+                    fromDraft(draft)
+                  ).length === 0
+                }
+              >
+                <Save />
+                Zapisz trening
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <div className="flex flex-col gap-2">
+        <Button
+          variant="outline"
+          className="h-11"
+          onClick={() =>
+            setDrafts((current) => [
+              ...current,
+              {
+                type: "",
+                exercises: "",
+                trainingMethod: "",
+                mainPartDuration: "",
+              },
+            ])
+          }
+          disabled={pending !== null}
+        >
+          <Plus />
+          Dodaj trening
+        </Button>
+        <Button
+          className="h-11"
+          onClick={saveDay}
+          disabled={pending !== null}
+        >
+          <Save />
+          Zapisz cały dzień
+        </Button>
+        {hasOverride && (
+          <Button
+            variant="outline"
+            className="h-11 text-red-700"
+            onClick={revert}
+            disabled={pending !== null}
+          >
+            <RotateCcw />
+            Przywróć oryginał
+          </Button>
+        )}
+      </div>
+
+      {/* Audit history */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Historia zmian</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Brak zmian</p>
+          ) : (
+            <ul className="divide-y">
+              {history.map((entry, idx) => (
+                <li key={idx} className="py-3 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">
+                      {ACTION_LABELS[entry.action]}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatWarsawDateTime(entry.at, {
+                        day: "2-digit",
+                        month: "2-digit",
+                        year: "numeric",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.author}
+                  </p>
+                  {describeEntry(entry).map((line, lineIdx) => (
+                    <p key={lineIdx} className="text-xs">
+                      {line}
+                    </p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
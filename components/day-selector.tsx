@@ -3,34 +3,26 @@
 import { useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { getPolishDayName, getTodayISO, isoToDayMonth } from "@/lib/dates";
 
 interface DaySelectorProps {
   availableDates: Array<{ date: string; dayName: string; isoDate: string }>;
   currentDate: string;
   onDateSelect: (date: string) => void;
+  highlightedDates?: string[]; // ISO dates matching the type filter; all if unset
 }
 
-const POLISH_DAYS = [
-  "Poniedziałek",
-  "Wtorek",
-  "Środa",
-  "Czwartek",
-  "Piątek",
-  "Sobota",
-  "Niedziela",
-];
-
 export function DaySelector({
   availableDates,
   currentDate,
   onDateSelect,
+  highlightedDates,
 }: DaySelectorProps) {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
   // Get dates: today + all future days
   const getDisplayDates = () => {
-    const today = new Date();
-    const todayISO = today.toISOString().split("T")[0];
+    const todayISO = getTodayISO();
 
     const displayDates: Array<{
       dayName: string;
@@ -41,14 +33,10 @@ export function DaySelector({
     }> = [];
 
     // Add today first
-    const todayDayOfWeek = today.getDay();
-    const todayDayName =
-      POLISH_DAYS[todayDayOfWeek === 0 ? 6 : todayDayOfWeek - 1];
-    const todayDateStr = `${String(today.getDate()).padStart(2, "0")}.${String(
-      today.getMonth() + 1
-    ).padStart(2, "0")}`;
+    const todayDayName = getPolishDayName(todayISO);
+    const todayDateStr = isoToDayMonth(todayISO);
 
-    const todayAvailable = availableDates.find((d) => d.date === todayDateStr);
+    const todayAvailable = availableDates.find((d) => d.isoDate === todayISO);
 
     displayDates.push({
       dayName: todayDayName,
@@ -60,7 +48,7 @@ export function DaySelector({
 
     // Add all future days from available dates (today onwards)
     const futureDates = availableDates
-      .filter((d) => d.isoDate >= todayISO && d.date !== todayDateStr)
+      .filter((d) => d.isoDate > todayISO)
       .sort((a, b) => a.isoDate.localeCompare(b.isoDate));
 
     futureDates.forEach((d) => {
@@ -86,6 +74,8 @@ export function DaySelector({
       >
         {displayDates.map((day, index) => {
           const isSelected = day.date === currentDate;
+          const isHighlighted =
+            !highlightedDates || highlightedDates.includes(day.isoDate);
 
           return (
             <Button
@@ -96,7 +86,8 @@ export function DaySelector({
               className={cn(
                 "flex-shrink-0 min-w-[90px] sm:min-w-[110px] flex-col h-[72px] sm:h-[88px] py-2 sm:py-3 px-3 sm:px-4 transition-all",
                 day.isToday && "border-primary border-2 shadow-sm",
-                isSelected && "shadow-md"
+                isSelected && "shadow-md",
+                !isHighlighted && !isSelected && "opacity-40"
               )}
               id={day.isToday ? "today-button" : undefined}
             >
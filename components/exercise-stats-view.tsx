@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ExerciseStats, ExerciseStatsReport } from "@/lib/types";
+import { foldText } from "@/lib/text";
+import { isoToDayMonth } from "@/lib/dates";
+import { ChevronDown, ChevronRight, Search } from "lucide-react";
+
+interface ExerciseStatsViewProps {
+  report: ExerciseStatsReport;
+}
+
+type SortKey = "most" | "least" | "recent" | "stale";
+
+const SORT_LABELS: Record<SortKey, string> = {
+  most: "Najczęstsze",
+  least: "Najrzadsze",
+  recent: "Ostatnio w planie",
+  stale: "Najdawniej w planie",
+};
+
+type Sorter = (a: ExerciseStats, b: ExerciseStats) => number;
+
+const SORTERS: Record<SortKey, Sorter> = {
+  most: (a, b) => b.sessions - a.sessions,
+  least: (a, b) => a.sessions - b.sessions,
+  recent: (a, b) => b.lastSeen.localeCompare(a.lastSeen),
+  stale: (a, b) => a.lastSeen.localeCompare(b.lastSeen),
+};
+
+function formatDate(isoDate: string): string {
+  return `${isoToDayMonth(isoDate)}.${isoDate.slice(0, 4)}`;
+}
+
+// Sessions per month as small bars, one per month of the report
+function MonthBars({
+  months,
+  byMonth,
+  max,
+}: {
+  months: string[];
+  byMonth: Record<string, number>;
+  max: number;
+}) {
+  return (
+    <div className="flex items-end gap-px h-8" aria-hidden="true">
+      {months.map((month) => (
+        <div
+          key={month}
+          className="flex-1 min-w-[2px] rounded-sm bg-primary/80"
+          style={{ height: `${((byMonth[month] ?? 0) / max) * 100}%` }}
+          title={`${month}: ${byMonth[month] ?? 0}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function ExerciseStatsView({ report }: ExerciseStatsViewProps) {
+  const [filter, setFilter] = useState("");
+  const [sort, setSort] = useState<SortKey>("most");
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const maxPerMonth = Math.max(
+    1,
+    ...report.exercises.flatMap((exercise) => Object.values(exercise.byMonth))
+  );
+  const folded = foldText(filter);
+  const exercises = report.exercises
+    .filter((exercise) => foldText(exercise.name).includes(folded))
+    .sort(SORTERS[sort]);
+
+  if (report.exercises.length === 0) {
+    return (
+      <p className="text-center py-16 text-muted-foreground">
+        Brak zapisanych treningów
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {report.exercises.length} ćwiczeń w {report.totalSessions} treningach
+        {report.from && report.to && (
+          <>
+            {" "}
+            ({formatDate(report.from)} – {formatDate(report.to)})
+          </>
+        )}
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filtruj ćwiczenia"
+            aria-label="Filtruj ćwiczenia"
+            className="w-full h-9 rounded-md border bg-background pl-9 pr-3 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+          />
+        </div>
+        <Select value={sort} onValueChange={(v) => setSort(v as SortKey)}>
+          <SelectTrigger className="w-full sm:w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {SORT_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        {exercises.map((exercise) => {
+          const isExpanded = expanded === exercise.id;
+          return (
+            <Card key={exercise.id} className="py-0 overflow-hidden">
+              <button
+                onClick={() => setExpanded(isExpanded ? null : exercise.id)}
+                aria-expanded={isExpanded}
+                className="w-full p-4 text-left hover:bg-accent/50 transition-colors"
+              >
+                <div className="flex items-center gap-2">
+                  {isExpanded ? (
+                    <ChevronDown className="h-4 w-4 shrink-0" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4 shrink-0" />
+                  )}
+                  <span className="font-semibold break-words">
+                    {exercise.name}
+                  </span>
+                  {!exercise.known && (
+                    <Badge variant="outline" className="text-xs">
+                      Spoza słownika
+                    </Badge>
+                  )}
+                  <Badge variant="secondary" className="ml-auto shrink-0">
+                    {exercise.sessions}×
+                  </Badge>
+                </div>
+                <p className="mt-1 pl-6 text-xs text-muted-foreground">
+                  Ostatnio: {formatDate(exercise.lastSeen)}
+                </p>
+              </button>
+
+              {isExpanded && (
+                <CardContent className="px-4 pb-4 pt-0 space-y-4 border-t">
+                  <div className="pt-4">
+                    <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
+                      Treningi w miesiącu
+                    </h4>
+                    <MonthBars
+                      months={report.months}
+                      byMonth={exercise.byMonth}
+                      max={maxPerMonth}
+                    />
+                    {report.months.length > 0 && (
+                      <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                        <span>{report.months[0]}</span>
+                        <span>{report.months[report.months.length - 1]}</span>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div>
+                      <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
+                        Typy treningów
+                      </h4>
+                      <div className="flex flex-wrap gap-1.5">
+                        {exercise.types.map((type) => (
+                          <Badge key={type.family} variant="outline">
+                            {type.label} · {type.sessions}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
+                        Najczęściej w parze z
+                      </h4>
+                      {exercise.pairedWith.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">—</p>
+                      ) : (
+                        <ul className="space-y-1 text-sm">
+                          {exercise.pairedWith.map((pair) => (
+                            <li
+                              key={pair.id}
+                              className="flex justify-between gap-2"
+                            >
+                              <span className="break-words">{pair.name}</span>
+                              <span className="text-muted-foreground">
+                                {pair.sessions}×
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+
+                  <p className="flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                    <span>Pierwszy raz: {formatDate(exercise.firstSeen)}</span>
+                    <span>Ostatnio: {formatDate(exercise.lastSeen)}</span>
+                  </p>
+                </CardContent>
+              )}
+            </Card>
+          );
+        })}
+        {exercises.length === 0 && (
+          <p className="text-center py-8 text-muted-foreground">
+            Brak ćwiczeń pasujących do „{filter}”
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
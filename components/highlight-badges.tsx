@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { TrainingSession } from "@/lib/types";
+import {
+  getSessionHighlights,
+  HIGHLIGHT_RULES,
+  HighlightColor,
+  HighlightIcon,
+} from "@/lib/highlights";
+import {
+  Check,
+  Footprints,
+  LucideIcon,
+  SlidersHorizontal,
+  Sparkles,
+  Target,
+  Timer,
+  Zap,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const DISABLED_STORAGE_KEY = "hardyplan_highlights_disabled";
+// Lets every mounted card pick up preference changes at once
+const CHANGE_EVENT = "hardyplan:highlights";
+
+const ICONS: Record<HighlightIcon, LucideIcon> = {
+  zap: Zap,
+  footprints: Footprints,
+  target: Target,
+  timer: Timer,
+  sparkles: Sparkles,
+};
+
+const COLOR_STYLES: Record<HighlightColor, string> = {
+  orange: "bg-orange-500 hover:bg-orange-600 text-white",
+  sky: "bg-sky-500 hover:bg-sky-600 text-white",
+  violet: "bg-violet-500 hover:bg-violet-600 text-white",
+  rose: "bg-rose-500 hover:bg-rose-600 text-white",
+  emerald: "bg-emerald-500 hover:bg-emerald-600 text-white",
+};
+
+function readDisabled(): string[] {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(DISABLED_STORAGE_KEY) ?? "[]"
+    );
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * IDs of the highlight rules the user switched off (stored per browser)
+ */
+function useDisabledHighlights(): [string[], (id: string) => void] {
+  const [disabled, setDisabled] = useState<string[]>([]);
+
+  useEffect(() => {
+    const sync = () => setDisabled(readDisabled());
+    sync();
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, []);
+
+  function toggle(id: string) {
+    const current = readDisabled();
+    const next = current.includes(id)
+      ? current.filter((ruleId) => ruleId !== id)
+      : [...current, id];
+    localStorage.setItem(DISABLED_STORAGE_KEY, JSON.stringify(next));
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }
+
+  return [disabled, toggle];
+}
+
+export function HighlightBadges({ session }: { session: TrainingSession }) {
+  const [disabled] = useDisabledHighlights();
+  const highlights = getSessionHighlights(
+    session,
+    HIGHLIGHT_RULES.filter((rule) => !disabled.includes(rule.id))
+  );
+
+  return (
+    <>
+      {highlights.map((rule) => {
+        const Icon = ICONS[rule.icon];
+        return (
+          <motion.div
+            key={rule.id}
+            initial={{ scale: 0, rotate: -10 }}
+            animate={{ scale: 1, rotate: 0 }}
+            transition={{
+              type: "spring",
+              stiffness: 260,
+              damping: 20,
+              delay: 0.1,
+            }}
+          >
+            <Badge
+              variant="default"
+              className={cn(
+                "flex items-center gap-1 px-2 py-0.5",
+                COLOR_STYLES[rule.color]
+              )}
+              title={rule.description}
+            >
+              <Icon className="h-3 w-3" />
+              <span className="text-xs font-bold">{rule.label}</span>
+            </Badge>
+          </motion.div>
+        );
+      })}
+    </>
+  );
+}
+
+export function HighlightSettings() {
+  const [disabled, toggle] = useDisabledHighlights();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+      >
+        <SlidersHorizontal />
+        Wyróżnienia
+      </Button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-72 rounded-lg border bg-background p-2 shadow-lg">
+          {HIGHLIGHT_RULES.map((rule) => {
+            const Icon = ICONS[rule.icon];
+            const enabled = !disabled.includes(rule.id);
+            return (
+              <button
+                key={rule.id}
+                onClick={() => toggle(rule.id)}
+                className="flex w-full items-center gap-3 rounded-md p-2 text-left hover:bg-accent transition-colors"
+                aria-pressed={enabled}
+              >
+                <span
+                  className={cn(
+                    "flex items-center justify-center w-6 h-6 rounded-full flex-shrink-0",
+                    enabled ? COLOR_STYLES[rule.color] : "bg-muted"
+                  )}
+                >
+                  <Icon className="h-3.5 w-3.5" />
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm font-medium">
+                    {rule.label}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {rule.description}
+                  </span>
+                </span>
+                {enabled && <Check className="h-4 w-4 text-primary" />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
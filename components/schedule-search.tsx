@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { HighlightBadges } from "@/components/highlight-badges";
+import { SearchResult } from "@/lib/types";
+import { Clock, Dumbbell, Search } from "lucide-react";
+
+interface ScheduleSearchProps {
+  initialQuery: string;
+}
+
+const SEARCH_DELAY = 300; // ms after the last keystroke
+
+export function ScheduleSearch({ initialQuery }: ScheduleSearchProps) {
+  const router = useRouter();
+  const [query, setQuery] = useState(initialQuery);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  // Search once typing pauses; keep the query in the URL for sharing
+  useEffect(() => {
+    const q = query.trim();
+    router.replace(q ? `/search?q=${encodeURIComponent(q)}` : "/search", {
+      scroll: false,
+    });
+
+    if (!q) {
+      setResults([]);
+      setTotal(0);
+      setError(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(q)}`, {
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+        const data: { results: SearchResult[]; total: number } =
+          await res.json();
+        setResults(data.results);
+        setTotal(data.total);
+        setError(false);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Failed to search:", err);
+        setError(true);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, router]);
+
+  return (
+    <div className="space-y-6">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="np. wall balls, skakanka, EMOM"
+          aria-label="Szukaj w planach treningowych"
+          autoFocus
+          className="w-full h-12 rounded-lg border bg-background pl-11 pr-4 text-base shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+        />
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-28 w-full rounded-xl" />
+          <Skeleton className="h-28 w-full rounded-xl" />
+          <Skeleton className="h-28 w-full rounded-xl" />
+        </div>
+      ) : error ? (
+        <p className="text-center py-12 text-muted-foreground">
+          Nie udało się wyszukać treningów
+        </p>
+      ) : query.trim() && results.length === 0 ? (
+        <p className="text-center py-12 text-muted-foreground">
+          Brak treningów dla „{query.trim()}”
+        </p>
+      ) : results.length > 0 ? (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {total > results.length
+              ? `Pokazano ${results.length} z ${total} treningów`
+              : `Znalezione treningi: ${total}`}
+          </p>
+          {results.map((result) => (
+            <motion.div
+              key={`${result.isoDate}-${result.sessionIndex}`}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.2 }}
+            >
+              <Link href={`/?date=${result.isoDate}`} className="block">
+                <Card className="py-0 hover:shadow-md hover:bg-accent/50 transition-all">
+                  <CardContent className="p-4 sm:p-5 space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="inline-block px-2 py-0.5 rounded-lg bg-muted text-sm font-semibold">
+                        {result.date}
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        {result.dayName} · {result.isoDate.slice(0, 4)}
+                      </span>
+                      <Badge
+                        variant="secondary"
+                        className="ml-auto flex items-center gap-1 text-xs"
+                      >
+                        <Clock className="h-3 w-3" />
+                        {result.mainPartDuration}
+                      </Badge>
+                    </div>
+                    <h3 className="font-bold text-lg flex items-center gap-2">
+                      <Dumbbell className="h-4 w-4 text-primary shrink-0" />
+                      {result.type}
+                    </h3>
+                    <div className="flex flex-wrap gap-2 empty:hidden">
+                      <HighlightBadges session={result} />
+                    </div>
+                    <p className="text-sm text-muted-foreground leading-relaxed">
+                      {result.exercises.join(" • ")}
+                    </p>
+                    <p className="text-sm font-medium">
+                      {result.trainingMethod}
+                    </p>
+                  </CardContent>
+                </Card>
+              </Link>
+            </motion.div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-center py-12 text-muted-foreground">
+          Szukaj ćwiczeń, typów treningów i metod we wszystkich planach
+        </p>
+      )}
+    </div>
+  );
+}
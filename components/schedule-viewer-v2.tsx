@@ -2,10 +2,24 @@
 
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { CollapsibleTrainingCard } from "@/components/collapsible-training-card";
 import { DaySelector } from "@/components/day-selector";
-import { DaySchedule } from "@/lib/types";
+import { HighlightSettings } from "@/components/highlight-badges";
+import { TypeFilter, TypeOption } from "@/components/type-filter";
+import { DaySchedule, TrainingSession } from "@/lib/types";
+import { formatMinutes, getDurationRanks } from "@/lib/durations";
+import { classifyTrainingType } from "@/lib/training-types";
+import { getTodayISO } from "@/lib/dates";
+import { Clock } from "lucide-react";
 
 interface ScheduleViewerProps {
   initialSchedule: DaySchedule | null;
@@ -19,6 +33,43 @@ const scheduleCache = new Map<
 >();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
+// "Up to N minutes" filter options, for picking a class that fits a break
+const DURATION_LIMITS = [15, 20, 30, 45];
+
+// "My classes" filter, kept per browser and mirrored in ?types=
+const TYPES_STORAGE_KEY = "hardyplan_types";
+const TYPES_PARAM = "types";
+
+type AvailableDate = {
+  date: string;
+  dayName: string;
+  isoDate: string;
+  types: TypeOption[];
+};
+
+function getTypeId(session: TrainingSession): string {
+  return (session.canonicalType ?? classifyTrainingType(session.type)).id;
+}
+
+function readStoredTypes(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TYPES_STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function syncTypesToUrl(types: string[]) {
+  const url = new URL(window.location.href);
+  if (types.length > 0) {
+    url.searchParams.set(TYPES_PARAM, types.join(","));
+  } else {
+    url.searchParams.delete(TYPES_PARAM);
+  }
+  window.history.replaceState(null, "", url);
+}
+
 export function ScheduleViewerV2({
   initialSchedule,
   initialDate,
@@ -26,9 +77,24 @@ export function ScheduleViewerV2({
   const [currentDate, setCurrentDate] = useState(initialDate);
   const [schedule, setSchedule] = useState<DaySchedule | null>(initialSchedule);
   const [loading, setLoading] = useState(false);
-  const [availableDates, setAvailableDates] = useState<
-    Array<{ date: string; dayName: string; isoDate: string }>
-  >([]);
+  const [maxDuration, setMaxDuration] = useState<string>("all");
+  const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
+  const [availableDates, setAvailableDates] = useState<AvailableDate[]>([]);
+
+  // Restore the type filter: a shared link wins over the saved preference
+  useEffect(() => {
+    const param = new URLSearchParams(window.location.search).get(TYPES_PARAM);
+    const types =
+      param !== null ? param.split(",").filter(Boolean) : readStoredTypes();
+    setSelectedTypes(types);
+    syncTypesToUrl(types);
+  }, []);
+
+  function updateSelectedTypes(types: string[]) {
+    setSelectedTypes(types);
+    localStorage.setItem(TYPES_STORAGE_KEY, JSON.stringify(types));
+    syncTypesToUrl(types);
+  }
 
   // Load all available dates
   useEffect(() => {
@@ -58,11 +124,9 @@ export function ScheduleViewerV2({
     loadDates();
   }, []);
 
-  // Extract dates from schedules
-  function extractDatesFromSchedules(
-    data: DaySchedule[]
-  ): Array<{ date: string; dayName: string; isoDate: string }> {
-    const dates: Array<{ date: string; dayName: string; isoDate: string }> = [];
+  // Extract dates (and the class types on each) from schedules
+  function extractDatesFromSchedules(data: DaySchedule[]): AvailableDate[] {
+    const dates: AvailableDate[] = [];
 
     data.forEach((day: DaySchedule) => {
       if (day.trainingSessions && day.trainingSessions.length > 0) {
@@ -70,6 +134,10 @@ export function ScheduleViewerV2({
           date: day.date,
           dayName: day.dayName,
           isoDate: day.isoDate || "",
+          types: day.trainingSessions.map((session) => ({
+            id: getTypeId(session),
+            label: session.type,
+          })),
         });
       }
     });
@@ -109,6 +177,45 @@ export function ScheduleViewerV2({
     }
   }
 
+  const sessions = schedule?.trainingSessions ?? [];
+  const durationRanks = getDurationRanks(sessions);
+  const visibleSessions = sessions
+    .map((session, idx) => ({ session, rank: durationRanks[idx] }))
+    .filter(
+      ({ session }) =>
+        (selectedTypes.length === 0 ||
+          selectedTypes.includes(getTypeId(session))) &&
+        (maxDuration === "all" ||
+          (typeof session.durationMinutes === "number" &&
+            session.durationMinutes <= Number(maxDuration)))
+    );
+  const summary = schedule?.durationSummary;
+
+  // Classes on the selectable days (today onwards) and the current day
+  const todayISO = getTodayISO();
+  const typeOptions: TypeOption[] = [];
+  [
+    ...availableDates
+      .filter((day) => day.isoDate >= todayISO)
+      .flatMap((day) => day.types),
+    ...sessions.map((session) => ({
+      id: getTypeId(session),
+      label: session.type,
+    })),
+    ...selectedTypes.map((id) => ({ id, label: id })),
+  ].forEach((option) => {
+    if (!typeOptions.some((o) => o.id === option.id)) typeOptions.push(option);
+  });
+
+  const highlightedDates =
+    selectedTypes.length > 0
+      ? availableDates
+          .filter((day) =>
+            day.types.some((type) => selectedTypes.includes(type.id))
+          )
+          .map((day) => day.isoDate)
+      : undefined;
+
   return (
     <div className="w-full">
       {/* Fixed Day selector */}
@@ -118,6 +225,7 @@ export function ScheduleViewerV2({
             availableDates={availableDates}
             currentDate={currentDate}
             onDateSelect={loadSchedule}
+            highlightedDates={highlightedDates}
           />
         </div>
       </div>
@@ -135,6 +243,40 @@ export function ScheduleViewerV2({
             <h2 className="text-2xl sm:text-3xl font-bold tracking-tight">
               {schedule.dayName}
             </h2>
+            <div className="ml-auto flex items-center gap-1">
+              <TypeFilter
+                options={typeOptions}
+                selected={selectedTypes}
+                onChange={updateSelectedTypes}
+              />
+              <HighlightSettings />
+            </div>
+          </div>
+        )}
+
+        {/* Work time and duration filter */}
+        {schedule && sessions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            {summary && summary.timedSessions > 0 && (
+              <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                <Clock className="h-4 w-4" />
+                Łącznie {formatMinutes(summary.totalMinutes)} · najdłuższy{" "}
+                {formatMinutes(summary.maxMinutes)}
+              </p>
+            )}
+            <Select value={maxDuration} onValueChange={setMaxDuration}>
+              <SelectTrigger size="sm" className="ml-auto w-44">
+                <SelectValue placeholder="Dowolny czas" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Dowolny czas</SelectItem>
+                {DURATION_LIMITS.map((limit) => (
+                  <SelectItem key={limit} value={String(limit)}>
+                    Do {limit} min
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         )}
       </div>
@@ -147,8 +289,7 @@ export function ScheduleViewerV2({
             <Skeleton className="h-40 w-full rounded-xl" />
             <Skeleton className="h-40 w-full rounded-xl" />
           </div>
-        ) : schedule?.trainingSessions &&
-          schedule.trainingSessions.length > 0 ? (
+        ) : visibleSessions.length > 0 ? (
           <motion.div
             key={`sessions-${currentDate}`}
             initial={{ opacity: 0 }}
@@ -156,14 +297,51 @@ export function ScheduleViewerV2({
             transition={{ duration: 0.15 }}
             className="space-y-4"
           >
-            {schedule.trainingSessions.map((session, idx) => (
+            {visibleSessions.map(({ session, rank }, idx) => (
               <CollapsibleTrainingCard
                 key={idx}
                 session={session}
                 defaultExpanded={false}
+                durationRank={rank}
               />
             ))}
           </motion.div>
+        ) : sessions.length > 0 ? (
+          <motion.div
+            key="filtered"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ duration: 0.15 }}
+            className="text-center py-16"
+          >
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-muted mb-4">
+              <span className="text-2xl">⏱️</span>
+            </div>
+            <p className="text-lg font-medium text-muted-foreground">
+              {maxDuration === "all"
+                ? "Brak Twoich zajęć tego dnia"
+                : selectedTypes.length > 0
+                ? `Brak Twoich zajęć do ${maxDuration} min`
+                : `Brak treningów do ${maxDuration} min`}
+            </p>
+            {maxDuration !== "all" ? (
+              <Button
+                variant="link"
+                onClick={() => setMaxDuration("all")}
+                className="mt-2"
+              >
+                Dowolny czas
+              </Button>
+            ) : (
+              <Button
+                variant="link"
+                onClick={() => updateSelectedTypes([])}
+                className="mt-2"
+              >
+                Pokaż wszystkie zajęcia
+              </Button>
+            )}
+          </motion.div>
         ) : schedule ? (
           <motion.div
             key="empty"
@@ -13,7 +13,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { TrainingSessionCard } from "@/components/training-session-card";
 import { WeekView } from "@/components/week-view";
 import { SwipeableContainer } from "@/components/swipeable-container";
-import { DaySchedule, WeekSchedule } from "@/lib/types";
+import { DaySchedule } from "@/lib/types";
+import { getTodayDayMonth } from "@/lib/dates";
 import {
   ChevronLeft,
   ChevronRight,
@@ -50,17 +51,13 @@ export function ScheduleViewer({
           next: { revalidate: 300 },
         });
         if (res.ok) {
-          const data = await res.json();
+          const data: DaySchedule[] = await res.json();
 
-          // Build list of available dates
-          const dates: Array<{ date: string; dayName: string }> = [];
-          data.forEach((week: WeekSchedule) => {
-            week.days.forEach((day) => {
-              if (day.trainingSessions.length > 0) {
-                dates.push({ date: day.date, dayName: day.dayName });
-              }
-            });
-          });
+          // Build list of available dates (oldest first for navigation)
+          const dates = data
+            .filter((day) => day.trainingSessions.length > 0)
+            .sort((a, b) => (a.isoDate ?? "").localeCompare(b.isoDate ?? ""))
+            .map((day) => ({ date: day.date, dayName: day.dayName }));
           setAvailableDates(dates);
         }
       } catch (error) {
@@ -109,13 +106,7 @@ export function ScheduleViewer({
 
   // Jump to today
   function goToToday() {
-    const todayDate = new Date()
-      .toLocaleDateString("pl-PL", {
-        day: "2-digit",
-        month: "2-digit",
-      })
-      .replace(/\//g, ".");
-    loadSchedule(todayDate);
+    loadSchedule(getTodayDayMonth());
   }
 
   // Navigate to previous day
@@ -146,12 +137,7 @@ export function ScheduleViewer({
     availableDates.length - 1;
 
   // Get today's date in DD.MM format for highlighting
-  const today = new Date()
-    .toLocaleDateString("pl-PL", {
-      day: "2-digit",
-      month: "2-digit",
-    })
-    .replace(/\//g, ".");
+  const today = getTodayDayMonth();
 
   const isToday = currentDate === today;
 
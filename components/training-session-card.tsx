@@ -2,6 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { TrainingSession } from "@/lib/types";
 import { Clock, Dumbbell } from "lucide-react";
+import { HighlightBadges } from "@/components/highlight-badges";
 
 interface TrainingSessionCardProps {
   session: TrainingSession;
@@ -24,6 +25,9 @@ export function TrainingSessionCard({ session }: TrainingSessionCardProps) {
             {session.mainPartDuration}
           </Badge>
         </div>
+        <div className="flex flex-wrap gap-2 empty:hidden">
+          <HighlightBadges session={session} />
+        </div>
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Exercises */}
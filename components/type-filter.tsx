@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Check, Filter } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface TypeOption {
+  id: string; // Canonical type ID (lib/training-types.ts)
+  label: string; // Type as written on the blog
+}
+
+interface TypeFilterProps {
+  options: TypeOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+export function TypeFilter({ options, selected, onChange }: TypeFilterProps) {
+  const [open, setOpen] = useState(false);
+
+  function toggle(id: string) {
+    onChange(
+      selected.includes(id)
+        ? selected.filter((typeId) => typeId !== id)
+        : [...selected, id]
+    );
+  }
+
+  return (
+    <div className="relative">
+      <Button
+        variant={selected.length > 0 ? "secondary" : "ghost"}
+        size="sm"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+      >
+        <Filter />
+        Moje zajęcia
+        {selected.length > 0 && ` (${selected.length})`}
+      </Button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-64 rounded-lg border bg-background p-2 shadow-lg">
+          {options.length === 0 && (
+            <p className="p-2 text-sm text-muted-foreground">Brak zajęć</p>
+          )}
+          {options.map((option) => {
+            const checked = selected.includes(option.id);
+            return (
+              <button
+                key={option.id}
+                onClick={() => toggle(option.id)}
+                className="flex w-full items-center gap-3 rounded-md p-2 text-left hover:bg-accent transition-colors"
+                aria-pressed={checked}
+              >
+                <span
+                  className={cn(
+                    "flex items-center justify-center w-5 h-5 rounded border flex-shrink-0",
+                    checked && "bg-primary border-primary text-primary-foreground"
+                  )}
+                >
+                  {checked && <Check className="h-3.5 w-3.5" />}
+                </span>
+                <span className="flex-1 min-w-0 text-sm font-medium">
+                  {option.label}
+                </span>
+              </button>
+            );
+          })}
+          {selected.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full mt-1"
+              onClick={() => onChange([])}
+            >
+              Pokaż wszystkie zajęcia
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
-import { WeekSchedule } from "@/lib/types";
+import { WeekSchedule, WeekSummary } from "@/lib/types";
+import { parseWeekId, resolveDayInWeek } from "@/lib/dates";
 import { Calendar, ChevronDown, ChevronUp } from "lucide-react";
 
 interface WeekViewProps {
@@ -15,35 +16,94 @@ interface WeekViewProps {
 }
 
 export function WeekView({ onDateSelect, currentDate }: WeekViewProps) {
-  const [schedules, setSchedules] = useState<WeekSchedule[]>([]);
+  const [weeks, setWeeks] = useState<WeekSummary[]>([]);
+  const [schedules, setSchedules] = useState<Map<string, WeekSchedule>>(
+    new Map()
+  );
   const [loading, setLoading] = useState(true);
   const [expandedWeeks, setExpandedWeeks] = useState<Set<string>>(new Set());
+  const [failedWeeks, setFailedWeeks] = useState<Set<string>>(new Set());
+  const requestedWeeks = useRef<Set<string>>(new Set());
 
   useEffect(() => {
-    async function loadSchedules() {
+    async function loadWeeks() {
       try {
-        const res = await fetch("/api/schedules");
+        const res = await fetch("/api/weeks");
         if (res.ok) {
-          const data = await res.json();
-          setSchedules(data);
+          const data: WeekSummary[] = await res.json();
+          setWeeks(data);
 
           // Auto-expand current week
-          const currentWeek = data.find((week: WeekSchedule) =>
-            week.days.some((day) => day.date === currentDate)
+          const currentWeek = data.find(
+            (week) => resolveDayInWeek(currentDate, week.week) !== null
           );
           if (currentWeek) {
             setExpandedWeeks(new Set([currentWeek.week]));
           }
         }
       } catch (error) {
-        console.error("Failed to load schedules:", error);
+        console.error("Failed to load weeks:", error);
       } finally {
         setLoading(false);
       }
     }
-    loadSchedules();
+    loadWeeks();
   }, [currentDate]);
 
+  // Load days of expanded weeks on demand
+  useEffect(() => {
+    const missing = Array.from(expandedWeeks).filter(
+      (week) => !requestedWeeks.current.has(week)
+    );
+    if (missing.length === 0) return;
+    missing.forEach((week) => requestedWeeks.current.add(week));
+    setFailedWeeks((prev) => {
+      const next = new Set(prev);
+      missing.forEach((week) => next.delete(week));
+      return next;
+    });
+
+    async function loadWeekSchedule(week: string) {
+      try {
+        const start = parseWeekId(week)?.start;
+        if (!start) throw new Error("Invalid week");
+        const res = await fetch(`/api/weeks/${start}`);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return (await res.json()) as WeekSchedule;
+      } catch (error) {
+        console.error(`Failed to load week ${week}:`, error);
+        // Allow a retry when the week is expanded again
+        requestedWeeks.current.delete(week);
+        return null;
+      }
+    }
+
+    async function loadWeekSchedules() {
+      const loaded = await Promise.all(missing.map(loadWeekSchedule));
+
+      setSchedules((prev) => {
+        const next = new Map(prev);
+        loaded.forEach((schedule) => {
+          if (schedule) next.set(schedule.week, schedule);
+        });
+        return next;
+      });
+      setFailedWeeks((prev) => {
+        const next = new Set(prev);
+        missing.forEach((week, index) => {
+          if (!loaded[index]) next.add(week);
+        });
+        return next;
+      });
+    }
+    loadWeekSchedules();
+  }, [expandedWeeks]);
+
+  // Expanded weeks whose request failed are requested again
+  function retryFailedWeeks() {
+    setExpandedWeeks((prev) => new Set(prev));
+  }
+
   function toggleWeek(week: string) {
     setExpandedWeeks((prev) => {
       const next = new Set(prev);
@@ -69,29 +129,29 @@ export function WeekView({ onDateSelect, currentDate }: WeekViewProps) {
   return (
     <ScrollArea className="h-[600px] w-full">
       <div className="space-y-3 pr-4">
-        {schedules.map((schedule) => {
-          const isExpanded = expandedWeeks.has(schedule.week);
-          const daysWithTraining = schedule.days.filter(
-            (day) => day.trainingSessions.length > 0
-          );
+        {weeks.map((summary) => {
+          const isExpanded = expandedWeeks.has(summary.week);
+          const hasFailed = failedWeeks.has(summary.week);
+          const schedule = schedules.get(summary.week);
+          const daysWithTraining =
+            schedule?.days.filter((day) => day.trainingSessions.length > 0) ??
+            [];
 
           return (
-            <Card key={schedule.week} className="overflow-hidden">
+            <Card key={summary.week} className="overflow-hidden">
               <CardHeader className="pb-3">
                 <button
-                  onClick={() => toggleWeek(schedule.week)}
+                  onClick={() => toggleWeek(summary.week)}
                   className="flex items-center justify-between w-full text-left hover:opacity-80 transition-opacity"
                 >
                   <div className="flex items-center gap-2">
                     <Calendar className="h-4 w-4 text-muted-foreground" />
                     <CardTitle className="text-lg">
-                      Tydzień {schedule.week}
+                      Tydzień {summary.week}
                     </CardTitle>
                   </div>
                   <div className="flex items-center gap-2">
-                    <Badge variant="secondary">
-                      {daysWithTraining.length} dni
-                    </Badge>
+                    <Badge variant="secondary">{summary.dayCount} dni</Badge>
                     {isExpanded ? (
                       <ChevronUp className="h-4 w-4" />
                     ) : (
@@ -101,7 +161,25 @@ export function WeekView({ onDateSelect, currentDate }: WeekViewProps) {
                 </button>
               </CardHeader>
 
-              {isExpanded && (
+              {isExpanded && !schedule && !hasFailed && (
+                <CardContent className="space-y-2 pt-0">
+                  <Skeleton className="h-14 w-full" />
+                  <Skeleton className="h-14 w-full" />
+                </CardContent>
+              )}
+
+              {isExpanded && !schedule && hasFailed && (
+                <CardContent className="flex items-center justify-between gap-2 pt-0">
+                  <p className="text-sm text-muted-foreground">
+                    Nie udało się załadować tygodnia
+                  </p>
+                  <Button variant="outline" size="sm" onClick={retryFailedWeeks}>
+                    Spróbuj ponownie
+                  </Button>
+                </CardContent>
+              )}
+
+              {isExpanded && schedule && (
                 <CardContent className="space-y-2 pt-0">
                   {daysWithTraining.map((day) => {
                     const isSelected = day.date === currentDate;
@@ -0,0 +1,318 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { Button } from "@/components/ui/button";
+import { TrainingSession } from "@/lib/types";
+import { buildTimerPlan, formatClock, TimerPhase } from "@/lib/workout-timer";
+import { Pause, Play, RotateCcw, SkipForward, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface WorkoutTimerProps {
+  session: TrainingSession;
+  onClose: () => void;
+}
+
+const PHASE_LABELS: Record<TimerPhase["kind"], string> = {
+  prepare: "Przygotuj się",
+  work: "Praca",
+  rest: "Przerwa",
+};
+
+const PHASE_STYLES: Record<TimerPhase["kind"], string> = {
+  prepare: "bg-amber-500 text-white",
+  work: "bg-green-600 text-white",
+  rest: "bg-sky-600 text-white",
+};
+
+// Cue shown when a phase starts: beep pitch (Hz) and vibration pattern (ms)
+const PHASE_CUES: Record<TimerPhase["kind"], [number, number[]]> = {
+  prepare: [660, [100]],
+  work: [880, [300]],
+  rest: [440, [100, 80, 100]],
+};
+
+export function WorkoutTimer({ session, onClose }: WorkoutTimerProps) {
+  const phases = useMemo(() => buildTimerPlan(session), [session]);
+  const [index, setIndex] = useState(0);
+  const [remaining, setRemaining] = useState(phases[0]?.seconds ?? 0);
+  const [running, setRunning] = useState(false);
+  const [finished, setFinished] = useState(false);
+
+  const endAtRef = useRef<number | null>(null);
+  const lastCountdownRef = useRef<number | null>(null);
+  const audioRef = useRef<AudioContext | null>(null);
+  const wakeLockRef = useRef<WakeLockSentinel | null>(null);
+
+  const beep = useCallback((frequency: number, duration = 0.15) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.3, audio.currentTime);
+    gain.gain.exponentialRampToValueAtTime(
+      0.001,
+      audio.currentTime + duration
+    );
+    oscillator.connect(gain).connect(audio.destination);
+    oscillator.start();
+    oscillator.stop(audio.currentTime + duration);
+  }, []);
+
+  const cue = useCallback(
+    (kind: TimerPhase["kind"]) => {
+      const [frequency, vibration] = PHASE_CUES[kind];
+      beep(frequency, 0.3);
+      navigator.vibrate?.(vibration);
+    },
+    [beep]
+  );
+
+  // Tick while running; timestamps keep the clock accurate in background tabs
+  useEffect(() => {
+    if (!running) return;
+
+    const timer = setInterval(() => {
+      const left = ((endAtRef.current ?? Date.now()) - Date.now()) / 1000;
+
+      // Short beeps for the last three seconds of each phase
+      const second = Math.ceil(left);
+      if (second <= 3 && second > 0 && lastCountdownRef.current !== second) {
+        lastCountdownRef.current = second;
+        beep(1000, 0.08);
+      }
+
+      if (left > 0) {
+        setRemaining(left);
+        return;
+      }
+
+      const next = index + 1;
+      if (next >= phases.length) {
+        setRunning(false);
+        setFinished(true);
+        setRemaining(0);
+        beep(880, 0.6);
+        navigator.vibrate?.([300, 100, 300, 100, 300]);
+        return;
+      }
+
+      endAtRef.current =
+        (endAtRef.current ?? Date.now()) + phases[next].seconds * 1000;
+      lastCountdownRef.current = null;
+      setIndex(next);
+      setRemaining(phases[next].seconds);
+      cue(phases[next].kind);
+    }, 200);
+
+    return () => clearInterval(timer);
+  }, [running, index, phases, beep, cue]);
+
+  // Keep the screen on while the timer runs
+  useEffect(() => {
+    if (!running) return;
+
+    navigator.wakeLock
+      ?.request("screen")
+      .then((lock) => {
+        wakeLockRef.current = lock;
+      })
+      .catch(() => {
+        // Not supported or denied (e.g. low battery) - the timer still works
+      });
+
+    return () => {
+      wakeLockRef.current?.release();
+      wakeLockRef.current = null;
+    };
+  }, [running]);
+
+  // Close with Escape; keep the page behind from scrolling
+  useEffect(() => {
+    function onKeyDown(event: KeyboardEvent) {
+      if (event.key === "Escape") onClose();
+    }
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.body.style.overflow = overflow;
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, [onClose]);
+
+  // Release audio when the timer closes
+  useEffect(() => {
+    return () => {
+      audioRef.current?.close();
+    };
+  }, []);
+
+  function start() {
+    // Audio can only start from a user gesture
+    audioRef.current ??= new AudioContext();
+    endAtRef.current = Date.now() + remaining * 1000;
+    if (index === 0 && remaining === phases[0].seconds) cue(phases[0].kind);
+    setRunning(true);
+  }
+
+  function pause() {
+    setRunning(false);
+    setRemaining(((endAtRef.current ?? Date.now()) - Date.now()) / 1000);
+  }
+
+  function skip() {
+    const next = index + 1;
+    if (next >= phases.length) {
+      setRunning(false);
+      setFinished(true);
+      setRemaining(0);
+      return;
+    }
+    endAtRef.current = Date.now() + phases[next].seconds * 1000;
+    lastCountdownRef.current = null;
+    setIndex(next);
+    setRemaining(phases[next].seconds);
+    if (running) cue(phases[next].kind);
+  }
+
+  function restart() {
+    setRunning(false);
+    setFinished(false);
+    setIndex(0);
+    setRemaining(phases[0].seconds);
+    lastCountdownRef.current = null;
+  }
+
+  if (phases.length === 0) return null;
+
+  const phase = phases[index];
+  const upcoming = phases
+    .slice(index + 1)
+    .find((p) => p.kind === "work" && p.exercise);
+  const totalSeconds = phases.reduce((sum, p) => sum + p.seconds, 0);
+  const elapsed =
+    phases.slice(0, index).reduce((sum, p) => sum + p.seconds, 0) +
+    (phase.seconds - remaining);
+
+  // Portal: card animations set transforms, which would trap a fixed overlay
+  return createPortal(
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Timer: ${session.type}`}
+      className={cn(
+        "fixed inset-0 z-[100] flex flex-col transition-colors duration-300",
+        finished ? "bg-background text-foreground" : PHASE_STYLES[phase.kind]
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3 p-4">
+        <div className="min-w-0">
+          <p className="text-sm opacity-80">{session.trainingMethod}</p>
+          <h2 className="text-xl font-bold truncate">{session.type}</h2>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon-lg"
+          onClick={onClose}
+          aria-label="Zamknij timer"
+          className="hover:bg-white/20"
+        >
+          <X className="size-6" />
+        </Button>
+      </div>
+
+      {/* Current phase */}
+      <div className="flex-1 flex flex-col items-center justify-center gap-4 px-6 text-center">
+        {finished ? (
+          <>
+            <p className="text-4xl sm:text-5xl font-bold">Koniec!</p>
+            <p className="text-lg text-muted-foreground">
+              Dobra robota 💪 ({formatClock(totalSeconds)})
+            </p>
+          </>
+        ) : (
+          <>
+            <p className="text-2xl sm:text-3xl font-semibold uppercase tracking-wide">
+              {PHASE_LABELS[phase.kind]}
+            </p>
+            {phase.round && phase.totalRounds && (
+              <p className="text-lg opacity-90">
+                Runda {phase.round}/{phase.totalRounds}
+              </p>
+            )}
+            <p
+              className="text-8xl sm:text-9xl font-bold tabular-nums"
+              aria-live="off"
+            >
+              {formatClock(remaining)}
+            </p>
+            {phase.exercise && (
+              <p className="text-2xl sm:text-4xl font-bold break-words max-w-3xl">
+                {phase.kind === "rest" ? "Dalej: " : ""}
+                {phase.exercise}
+              </p>
+            )}
+            {phase.kind !== "rest" && upcoming && (
+              <p className="text-base opacity-80">
+                Następnie: {upcoming.exercise}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Progress */}
+      <div className="h-2 bg-black/20">
+        <div
+          className="h-full bg-white/80 transition-[width] duration-200"
+          style={{
+            width: `${Math.min(100, (elapsed / totalSeconds) * 100)}%`,
+          }}
+        />
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center justify-center gap-4 p-6">
+        <Button
+          variant="ghost"
+          size="icon-lg"
+          onClick={restart}
+          aria-label="Od początku"
+          className="hover:bg-white/20"
+        >
+          <RotateCcw className="size-6" />
+        </Button>
+        {!finished && (
+          <Button
+            variant="secondary"
+            onClick={running ? pause : start}
+            className="h-16 w-16 rounded-full"
+            aria-label={running ? "Pauza" : "Start"}
+          >
+            {running ? (
+              <Pause className="size-8" />
+            ) : (
+              <Play className="size-8" />
+            )}
+          </Button>
+        )}
+        {!finished && (
+          <Button
+            variant="ghost"
+            size="icon-lg"
+            onClick={skip}
+            aria-label="Pomiń"
+            className="hover:bg-white/20"
+          >
+            <SkipForward className="size-6" />
+          </Button>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+}
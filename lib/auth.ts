@@ -0,0 +1,63 @@
+import { createHash } from "crypto";
+
+/**
+ * Admin Authorization
+ * Admin endpoints accept either "Authorization: Bearer {ADMIN_SECRET}"
+ * or the session cookie set by POST /api/admin/session (used by /admin).
+ * Falls back to CRON_SECRET when ADMIN_SECRET is not configured.
+ */
+
+export const ADMIN_COOKIE = "hardyplan_admin";
+export const ADMIN_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+
+/**
+ * Get the secret that protects admin endpoints
+ * @returns Secret or null if none is configured
+ */
+export function getAdminSecret(): string | null {
+  return process.env.ADMIN_SECRET || process.env.CRON_SECRET || null;
+}
+
+/**
+ * Derive the session cookie value from the admin secret
+ * The secret itself is never stored in the browser.
+ * @returns Session token or null if no secret is configured
+ */
+export function getAdminSessionToken(): string | null {
+  const secret = getAdminSecret();
+  if (!secret) return null;
+
+  return createHash("sha256").update(`admin-session:${secret}`).digest("hex");
+}
+
+/**
+ * Check an admin session cookie value
+ * @param token - Cookie value
+ * @returns True if the token matches the current admin secret
+ */
+export function isValidAdminSession(token: string | undefined): boolean {
+  const expected = getAdminSessionToken();
+  return !!expected && token === expected;
+}
+
+/**
+ * Check whether a request carries valid admin credentials
+ * @param request - Incoming request
+ * @returns True if the bearer token or session cookie is valid
+ */
+export function isAdminRequest(request: Request): boolean {
+  const secret = getAdminSecret();
+  const authHeader = request.headers.get("authorization");
+
+  if (secret && authHeader === `Bearer ${secret}`) {
+    return true;
+  }
+
+  const cookie = request.headers
+    .get("cookie")
+    ?.split(";")
+    .map((part) => part.trim().split("="))
+    .find(([name]) => name === ADMIN_COOKIE);
+
+  return isValidAdminSession(cookie?.[1]);
+}
@@ -0,0 +1,276 @@
+import { scrapeBlogPost, scrapeCategoryListing } from "./scraper";
+import { PageNotFoundError } from "./fetcher";
+import { ingestPosts } from "./ingest";
+import { getBackfillState, storeBackfillState } from "./kv";
+import { parseWeekId, toWarsawISODate } from "./dates";
+import type { BackfillState, BlogPost } from "./types";
+
+/**
+ * Historical Backfill
+ * Walks the paginated "plan-treningowy" category listing from newest to
+ * oldest and ingests every post until a chosen date is reached.
+ *
+ * - Resumable: progress is stored after each page and picked up next run
+ * - Rate-limited: waits between every request to the blog
+ * - Idempotent: unchanged posts are skipped by content hash (see ingestPosts)
+ * - Retrying: posts that fail to scrape or parse are retried on later runs
+ */
+
+const DEFAULT_DELAY_MS = 2000;
+const DEFAULT_TIME_BUDGET_MS = 240 * 1000; // Leaves headroom under maxDuration
+const MAX_STORED_ERRORS = 50;
+const MAX_ATTEMPTS = 3; // Per post, before it's left to the error log
+
+interface BackfillOptions {
+  until: string; // YYYY-MM-DD, oldest date to backfill
+  reset?: boolean; // Start again from the first page
+  delayMs?: number; // Pause between requests
+  timeBudgetMs?: number; // Stop (and resume later) after this long
+}
+
+interface BatchOptions {
+  deadline: number;
+  delayMs: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function createState(until: string): BackfillState {
+  const now = new Date().toISOString();
+  return {
+    until,
+    nextPage: 1,
+    reachedEnd: false,
+    completed: false,
+    pendingPosts: [],
+    pagesProcessed: 0,
+    postsProcessed: 0,
+    weeksStored: 0,
+    weeksSkipped: 0,
+    errors: [],
+    startedAt: now,
+    updatedAt: now,
+  };
+}
+
+function addErrors(state: BackfillState, errors: string[]): void {
+  state.errors = [...state.errors, ...errors].slice(-MAX_STORED_ERRORS);
+}
+
+/**
+ * Update the retry list after a batch of posts
+ * @param state - Backfill state (updated in place)
+ * @param processed - URLs that were attempted
+ * @param failed - URLs that failed to scrape, parse or store
+ */
+function updatePendingPosts(
+  state: BackfillState,
+  processed: string[],
+  failed: Set<string>
+): void {
+  const pending = new Map(
+    state.pendingPosts.map((post) => [post.url, post.attempts])
+  );
+
+  for (const url of processed) {
+    if (!failed.has(url)) {
+      pending.delete(url);
+      continue;
+    }
+
+    const attempts = (pending.get(url) ?? 0) + 1;
+    if (attempts >= MAX_ATTEMPTS) {
+      pending.delete(url);
+      addErrors(state, [`Giving up on ${url} after ${attempts} attempts`]);
+    } else {
+      pending.set(url, attempts);
+    }
+  }
+
+  state.pendingPosts = [...pending].map(([url, attempts]) => ({
+    url,
+    attempts,
+  }));
+}
+
+/**
+ * Scrape and ingest a batch of posts
+ * @param state - Backfill state (updated in place)
+ * @param urls - Post URLs, newest first
+ * @param options - Deadline and pause between requests
+ * @returns Whether a post older than `until` was seen and whether the
+ *   deadline cut the batch short
+ */
+async function backfillPosts(
+  state: BackfillState,
+  urls: string[],
+  options: BatchOptions
+): Promise<{ reachedUntil: boolean; timedOut: boolean }> {
+  const posts: BlogPost[] = [];
+  const processed: string[] = [];
+  const failed = new Set<string>();
+  let reachedUntil = false;
+  let timedOut = false;
+
+  for (const url of urls) {
+    if (Date.now() >= options.deadline) {
+      timedOut = true;
+      break;
+    }
+    processed.push(url);
+
+    try {
+      const post = await scrapeBlogPost(url);
+      const published = post.publishedAt ? new Date(post.publishedAt) : null;
+
+      if (
+        published &&
+        !isNaN(published.getTime()) &&
+        toWarsawISODate(published) < state.until
+      ) {
+        reachedUntil = true;
+      } else {
+        posts.push(post);
+      }
+    } catch (error) {
+      failed.add(url);
+      addErrors(state, [
+        `Failed to scrape ${url}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      ]);
+    }
+
+    await sleep(options.delayMs);
+  }
+
+  const result = await ingestPosts(posts);
+
+  state.postsProcessed += posts.length;
+  state.weeksStored += result.stored.length;
+  state.weeksSkipped += result.skipped.length;
+  addErrors(state, result.errors);
+
+  for (const { url, status } of result.outcomes) {
+    if (status === "parse_failed" || status === "store_failed") {
+      failed.add(url);
+    }
+  }
+  updatePendingPosts(state, processed, failed);
+
+  // Posts without a publish date are checked against their parsed week
+  const until = state.until;
+  if (
+    [...result.stored, ...result.skipped].some((week) => {
+      const bounds = parseWeekId(week);
+      return bounds !== null && bounds.start < until;
+    })
+  ) {
+    reachedUntil = true;
+  }
+
+  return { reachedUntil, timedOut };
+}
+
+/**
+ * Run (or resume) the historical backfill
+ * Posts that failed on earlier runs are retried first, then the listing is
+ * walked from where the last run stopped.
+ * @param options - Target date, reset flag and rate limiting
+ * @returns Backfill state after this run
+ */
+export async function runBackfill(
+  options: BackfillOptions
+): Promise<BackfillState> {
+  const delayMs =
+    options.delayMs ??
+    (Number(process.env.BACKFILL_DELAY_MS) || DEFAULT_DELAY_MS);
+  const batch: BatchOptions = {
+    deadline: Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS),
+    delayMs,
+  };
+
+  const stored = options.reset ? null : await getBackfillState();
+
+  // A different target date starts a fresh backfill; states stored before
+  // retries existed are treated as having nothing to retry
+  const state: BackfillState =
+    stored && stored.until === options.until
+      ? {
+          ...stored,
+          reachedEnd: stored.reachedEnd ?? stored.completed,
+          pendingPosts: stored.pendingPosts ?? [],
+        }
+      : createState(options.until);
+
+  if (state.completed) {
+    console.log(`Backfill to ${state.until} already completed`);
+    return state;
+  }
+
+  if (state.pendingPosts.length > 0) {
+    console.log(`Backfill: retrying ${state.pendingPosts.length} posts`);
+    await backfillPosts(
+      state,
+      state.pendingPosts.map((post) => post.url),
+      batch
+    );
+    state.updatedAt = new Date().toISOString();
+    await storeBackfillState(state);
+  }
+
+  while (!state.reachedEnd && Date.now() < batch.deadline) {
+    console.log(`Backfill: processing category page ${state.nextPage}`);
+
+    let urls: string[];
+    try {
+      urls = await scrapeCategoryListing(state.nextPage);
+    } catch (error) {
+      // A missing page past the first one is the end of the archive; any
+      // other failure leaves the page to be retried on the next run
+      if (error instanceof PageNotFoundError && state.nextPage > 1) {
+        urls = [];
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        addErrors(state, [
+          `Failed to scrape category page ${state.nextPage}: ${message}`,
+        ]);
+        break;
+      }
+    }
+    await sleep(delayMs);
+
+    if (urls.length === 0) {
+      console.log("Backfill: no more posts, reached end of archive");
+      state.reachedEnd = true;
+      break;
+    }
+
+    const { reachedUntil, timedOut } = await backfillPosts(state, urls, batch);
+
+    // Redo an unfinished page next run (ingest is idempotent)
+    if (!timedOut) {
+      state.pagesProcessed++;
+      state.nextPage++;
+      state.reachedEnd = reachedUntil;
+    }
+
+    state.updatedAt = new Date().toISOString();
+    await storeBackfillState(state);
+  }
+
+  state.completed = state.reachedEnd && state.pendingPosts.length === 0;
+
+  console.log(
+    `Backfill ${state.completed ? "completed" : "paused"} at page ${
+      state.nextPage
+    }: ${state.weeksStored} weeks stored, ${state.weeksSkipped} skipped, ${
+      state.pendingPosts.length
+    } to retry`
+  );
+
+  await storeBackfillState(state);
+  return state;
+}
@@ -0,0 +1,182 @@
+import {
+  applyDayOverride,
+  resolveSessionOverrides,
+  toSessionEdit,
+} from "./overrides";
+import {
+  getScrapedDaySchedule,
+  getDayOverride,
+  storeDayOverride,
+  deleteDayOverride,
+} from "./kv";
+import type {
+  DayOverride,
+  DaySchedule,
+  OverrideAuditEntry,
+  SessionEdit,
+  SessionOverride,
+} from "./types";
+
+/**
+ * Manual Corrections
+ * Admin edits of stored day schedules. Each change is saved as an override
+ * (see lib/overrides.ts) and recorded in the day's audit trail.
+ */
+
+/**
+ * Load the scraped day, its override and the effective schedule
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @returns Day state, or null if no scraped day exists
+ */
+async function loadDay(isoDate: string): Promise<{
+  scraped: DaySchedule;
+  override: DayOverride | null;
+  effective: SessionEdit[];
+} | null> {
+  const [scraped, override] = await Promise.all([
+    getScrapedDaySchedule(isoDate),
+    getDayOverride(isoDate),
+  ]);
+  if (!scraped) return null;
+
+  const effective = applyDayOverride(scraped, override).trainingSessions.map(
+    toSessionEdit
+  );
+  return { scraped, override, effective };
+}
+
+/**
+ * Replace all training sessions of a day
+ * Clears earlier per-session edits, since they are folded into the new list.
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @param sessions - New training sessions
+ * @param author - Who made the change
+ * @returns Effective day schedule, or null if the day isn't stored
+ */
+export async function replaceDaySessions(
+  isoDate: string,
+  sessions: SessionEdit[],
+  author: string
+): Promise<DaySchedule | null> {
+  const day = await loadDay(isoDate);
+  if (!day) return null;
+
+  const now = new Date().toISOString();
+  const override: DayOverride = {
+    isoDate,
+    trainingSessions: sessions.map(toSessionEdit),
+    sessions: [],
+    updatedAt: now,
+    updatedBy: author,
+  };
+
+  await storeDayOverride(override, {
+    at: now,
+    author,
+    action: "replace_day",
+    before: day.effective,
+    after: override.trainingSessions!,
+  });
+
+  return applyDayOverride(day.scraped, override);
+}
+
+/**
+ * Correct fields of a single training session
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @param index - Session position in the effective day schedule
+ * @param changes - Corrected fields
+ * @param author - Who made the change
+ * @returns Effective day schedule, or null if the day or session isn't stored
+ */
+export async function editDaySession(
+  isoDate: string,
+  index: number,
+  changes: Partial<SessionEdit>,
+  author: string
+): Promise<DaySchedule | null> {
+  const day = await loadDay(isoDate);
+  if (!day || !day.effective[index]) return null;
+
+  const now = new Date().toISOString();
+  const previous: Omit<DayOverride, "updatedAt" | "updatedBy"> =
+    day.override ?? { isoDate, sessions: [] };
+  let override: DayOverride;
+
+  if (previous.trainingSessions) {
+    // Edits of a replaced day go straight into the replacement list
+    override = {
+      ...previous,
+      trainingSessions: previous.trainingSessions.map((session, i) =>
+        i === index ? { ...session, ...changes } : session
+      ),
+      updatedAt: now,
+      updatedBy: author,
+    };
+  } else {
+    // Re-anchor existing edits to the sessions they currently apply to
+    const resolved = resolveSessionOverrides(
+      day.scraped.trainingSessions,
+      previous.sessions
+    );
+    const sessions: SessionOverride[] = [...resolved].map(
+      ([target, existing]) => ({
+        ...existing,
+        index: target,
+        baseType: day.scraped.trainingSessions[target].type,
+      })
+    );
+
+    override = {
+      ...previous,
+      sessions: [
+        ...sessions.filter((s) => s.index !== index),
+        {
+          index,
+          baseType: day.scraped.trainingSessions[index].type,
+          changes: { ...resolved.get(index)?.changes, ...changes },
+        },
+      ],
+      updatedAt: now,
+      updatedBy: author,
+    };
+  }
+
+  const updated = applyDayOverride(day.scraped, override);
+
+  await storeDayOverride(override, {
+    at: now,
+    author,
+    action: "edit_session",
+    sessionIndex: index,
+    before: day.effective,
+    after: updated.trainingSessions.map(toSessionEdit),
+  });
+
+  return updated;
+}
+
+/**
+ * Drop all manual corrections of a day, restoring the scraped data
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @param author - Who made the change
+ * @returns Scraped day schedule, or null if the day had no override
+ */
+export async function revertDay(
+  isoDate: string,
+  author: string
+): Promise<DaySchedule | null> {
+  const day = await loadDay(isoDate);
+  if (!day?.override) return null;
+
+  const entry: OverrideAuditEntry = {
+    at: new Date().toISOString(),
+    author,
+    action: "revert",
+    before: day.effective,
+    after: day.scraped.trainingSessions.map(toSessionEdit),
+  };
+  await deleteDayOverride(isoDate, entry);
+
+  return day.scraped;
+}
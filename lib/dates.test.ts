@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  dayMonthToISO,
+  getTodayISO,
+  getWeekBounds,
+  getWeekISODates,
+  resolveDayInWeek,
+} from "./dates";
+
+describe("getTodayISO", () => {
+  it("uses the Warsaw day around the switch to summer time", () => {
+    // 2025-03-30: clocks go from 02:00 CET to 03:00 CEST
+    // 00:30 and 01:30 Warsaw time, still winter time (UTC+1)
+    expect(getTodayISO(new Date("2025-03-29T23:30:00Z"))).toBe("2025-03-30");
+    expect(getTodayISO(new Date("2025-03-30T00:30:00Z"))).toBe("2025-03-30");
+  });
+
+  it("uses the Warsaw day around the switch to winter time", () => {
+    // 2025-10-26: clocks go from 03:00 CEST back to 02:00 CET
+    // 00:30 and 01:30 Warsaw time, still summer time (UTC+2)
+    expect(getTodayISO(new Date("2025-10-25T22:30:00Z"))).toBe("2025-10-26");
+    expect(getTodayISO(new Date("2025-10-25T23:30:00Z"))).toBe("2025-10-26");
+  });
+
+  it("keeps the previous day until Warsaw midnight", () => {
+    // 23:30 Warsaw time
+    expect(getTodayISO(new Date("2025-10-25T21:30:00Z"))).toBe("2025-10-25");
+  });
+});
+
+describe("dayMonthToISO", () => {
+  it("puts a December date seen in January in the previous year", () => {
+    expect(dayMonthToISO("31.12", new Date("2026-01-01T12:00:00Z"))).toBe(
+      "2025-12-31"
+    );
+  });
+
+  it("puts a January date seen in December in the next year", () => {
+    expect(dayMonthToISO("01.01", new Date("2025-12-31T12:00:00Z"))).toBe(
+      "2026-01-01"
+    );
+  });
+
+  it("uses the Warsaw year of the reference", () => {
+    // 23:30 UTC on New Year's Eve is already January 1st in Warsaw
+    expect(dayMonthToISO("15.06", new Date("2025-12-31T23:30:00Z"))).toBe(
+      "2026-06-15"
+    );
+  });
+});
+
+describe("resolveDayInWeek", () => {
+  const week = "29/12/2025-04/01/2026";
+
+  it("takes the year from the week range across New Year", () => {
+    expect(resolveDayInWeek("29.12", week)).toBe("2025-12-29");
+    expect(resolveDayInWeek("02.01", week)).toBe("2026-01-02");
+  });
+
+  it("rejects dates outside the week", () => {
+    expect(resolveDayInWeek("05.01", week)).toBeNull();
+    expect(resolveDayInWeek("2.01", week)).toBeNull();
+  });
+});
+
+describe("getWeekBounds", () => {
+  it("spans the year end from Monday to Sunday", () => {
+    const bounds = { start: "2025-12-29", end: "2026-01-04" };
+    expect(getWeekBounds("2025-12-29")).toEqual(bounds);
+    expect(getWeekBounds("2026-01-01")).toEqual(bounds);
+    expect(getWeekBounds("2026-01-04")).toEqual(bounds);
+  });
+
+  it("starts a new week on Monday", () => {
+    expect(getWeekBounds("2026-01-05").start).toBe("2026-01-05");
+  });
+});
+
+describe("getWeekISODates", () => {
+  it("lists every day of a week across New Year", () => {
+    expect(getWeekISODates("29/12/2025-04/01/2026")).toEqual([
+      "2025-12-29",
+      "2025-12-30",
+      "2025-12-31",
+      "2026-01-01",
+      "2026-01-02",
+      "2026-01-03",
+      "2026-01-04",
+    ]);
+  });
+});
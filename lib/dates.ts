@@ -0,0 +1,271 @@
+/**
+ * Dates
+ * Calendar helpers for the club's timezone (Europe/Warsaw). "Today", DD.MM
+ * dates and week boundaries are always Polish calendar days, regardless of
+ * the server or browser timezone.
+ *
+ * Calendar days are passed around as YYYY-MM-DD strings; arithmetic on them
+ * is done in UTC so it's unaffected by DST transitions.
+ */
+
+export const TIME_ZONE = "Europe/Warsaw";
+
+export const POLISH_DAY_NAMES = [
+  "Poniedziałek",
+  "Wtorek",
+  "Środa",
+  "Czwartek",
+  "Piątek",
+  "Sobota",
+  "Niedziela",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const warsawDateFormat = new Intl.DateTimeFormat("en-CA", {
+  timeZone: TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+/**
+ * Get the Warsaw calendar day of an instant
+ * @param instant - Point in time (defaults to now)
+ * @returns Date in YYYY-MM-DD format
+ */
+export function toWarsawISODate(instant: Date = new Date()): string {
+  const parts = warsawDateFormat.formatToParts(instant);
+  const get = (type: string) => parts.find((p) => p.type === type)!.value;
+  return `${get("year")}-${get("month")}-${get("day")}`;
+}
+
+/**
+ * Get today's date in Warsaw
+ * @param now - Current time (for testing)
+ * @returns Date in YYYY-MM-DD format
+ */
+export function getTodayISO(now: Date = new Date()): string {
+  return toWarsawISODate(now);
+}
+
+/**
+ * Get today's date in Warsaw in the blog's DD.MM format
+ * @param now - Current time (for testing)
+ * @returns Date in DD.MM format
+ */
+export function getTodayDayMonth(now: Date = new Date()): string {
+  return isoToDayMonth(getTodayISO(now));
+}
+
+/**
+ * Check that a string is a real calendar date in YYYY-MM-DD format
+ * @param value - Candidate date
+ * @returns True for valid dates (e.g. rejects 2025-02-30)
+ */
+export function isValidISODate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = isoToDate(value);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Get an instant that falls on the given calendar day in Warsaw
+ * Uses noon UTC, which is the same day in Warsaw in winter and summer time.
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @returns Date object
+ */
+export function isoToDate(isoDate: string): Date {
+  return new Date(`${isoDate}T12:00:00Z`);
+}
+
+/**
+ * Convert YYYY-MM-DD to the blog's DD.MM format
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @returns Date in DD.MM format
+ */
+export function isoToDayMonth(isoDate: string): string {
+  const [, month, day] = isoDate.split("-");
+  return `${day}.${month}`;
+}
+
+/**
+ * Convert DD.MM to YYYY-MM-DD relative to a reference date
+ * Uses the reference's Warsaw year, handling year boundaries (a December
+ * date seen in January belongs to the previous year and vice versa).
+ * @param date - Date in DD.MM format
+ * @param reference - Date whose year is used (defaults to now)
+ * @returns Date in YYYY-MM-DD format
+ */
+export function dayMonthToISO(
+  date: string,
+  reference: Date = new Date()
+): string {
+  const [day, month] = date.split(".").map(Number);
+  const [refYear, refMonth] = toWarsawISODate(reference)
+    .split("-")
+    .map(Number);
+  let year = refYear;
+
+  if (refMonth === 1 && month === 12) {
+    year -= 1;
+  }
+  if (refMonth === 12 && month === 1) {
+    year += 1;
+  }
+
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Pick the year that places a day and month closest to the reference date
+ * @param day - Day of month
+ * @param month - Month (1-12)
+ * @param reference - Reference date (usually now)
+ * @returns Four-digit year
+ */
+export function inferYear(day: number, month: number, reference: Date): number {
+  const referenceTime = isoToDate(toWarsawISODate(reference)).getTime();
+  const baseYear = Number(toWarsawISODate(reference).slice(0, 4));
+  const distance = (year: number) =>
+    Math.abs(Date.UTC(year, month - 1, day, 12) - referenceTime);
+
+  return [baseYear - 1, baseYear, baseYear + 1].reduce((best, year) =>
+    distance(year) < distance(best) ? year : best
+  );
+}
+
+/**
+ * Add calendar days to a date
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @param days - Number of days (may be negative)
+ * @returns Date in YYYY-MM-DD format
+ */
+export function addDays(isoDate: string, days: number): string {
+  return new Date(isoToDate(isoDate).getTime() + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Count calendar days between two dates
+ * @param from - Date in YYYY-MM-DD format
+ * @param to - Date in YYYY-MM-DD format
+ * @returns Number of days from `from` to `to` (negative if `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (isoToDate(to).getTime() - isoToDate(from).getTime()) / DAY_MS
+  );
+}
+
+/**
+ * Get the Polish day name of a date
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @returns Day name, e.g. "Poniedziałek"
+ */
+export function getPolishDayName(isoDate: string): string {
+  const weekday = isoToDate(isoDate).getUTCDay(); // 0 = Sunday
+  return POLISH_DAY_NAMES[(weekday + 6) % 7];
+}
+
+/**
+ * Get the Monday-to-Sunday week containing a date
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @returns First and last day of the week in YYYY-MM-DD format
+ */
+export function getWeekBounds(isoDate: string): { start: string; end: string } {
+  const offset = (isoToDate(isoDate).getUTCDay() + 6) % 7;
+  const start = addDays(isoDate, -offset);
+  return { start, end: addDays(start, 6) };
+}
+
+/**
+ * Parse a week identifier
+ * @param week - Week identifier (DD/MM/YYYY-DD/MM/YYYY)
+ * @returns First and last day in YYYY-MM-DD format, or null if malformed
+ */
+export function parseWeekId(
+  week: string
+): { start: string; end: string } | null {
+  const match = week.match(
+    /^(\d{2})\/(\d{2})\/(\d{4})-(\d{2})\/(\d{2})\/(\d{4})$/
+  );
+  if (!match) return null;
+
+  const [, startDay, startMonth, startYear, endDay, endMonth, endYear] = match;
+  const start = `${startYear}-${startMonth}-${startDay}`;
+  const end = `${endYear}-${endMonth}-${endDay}`;
+
+  return isValidISODate(start) && isValidISODate(end) ? { start, end } : null;
+}
+
+/**
+ * Resolve a DD.MM date to the matching day inside a week range
+ * The year comes from the week identifier, so posts processed long after
+ * publication (or across New Year) still get the right date.
+ * @param date - Date in DD.MM format
+ * @param week - Week identifier (DD/MM/YYYY-DD/MM/YYYY)
+ * @returns Date in YYYY-MM-DD format, or null if it's not in the week
+ */
+export function resolveDayInWeek(date: string, week: string): string | null {
+  const bounds = parseWeekId(week);
+  const match = date.match(/^(\d{2})\.(\d{2})$/);
+  if (!bounds || !match) return null;
+
+  const [, day, month] = match;
+  const years = new Set([bounds.start.slice(0, 4), bounds.end.slice(0, 4)]);
+
+  for (const year of years) {
+    const isoDate = `${year}-${month}-${day}`;
+    if (
+      isValidISODate(isoDate) &&
+      isoDate >= bounds.start &&
+      isoDate <= bounds.end
+    ) {
+      return isoDate;
+    }
+  }
+  return null;
+}
+
+/**
+ * List all dates covered by a week identifier
+ * @param week - Week identifier (DD/MM/YYYY-DD/MM/YYYY)
+ * @returns Dates in YYYY-MM-DD format, or empty array if malformed
+ */
+export function getWeekISODates(week: string): string[] {
+  const bounds = parseWeekId(week);
+  if (!bounds) return [];
+
+  // Cap at two weeks to guard against malformed ranges
+  const length = Math.min(daysBetween(bounds.start, bounds.end) + 1, 14);
+  return Array.from({ length: Math.max(length, 0) }, (_, i) =>
+    addDays(bounds.start, i)
+  );
+}
+
+/**
+ * Format a timestamp for display in Warsaw time
+ * @param value - ISO timestamp or milliseconds since epoch
+ * @param options - Extra Intl options (defaults to day, month and time)
+ * @returns Localized date and time, e.g. "18.10, 08:00"
+ */
+export function formatWarsawDateTime(
+  value: string | number,
+  options: Intl.DateTimeFormatOptions = {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }
+): string {
+  return new Date(value).toLocaleString("pl-PL", {
+    ...options,
+    timeZone: TIME_ZONE,
+  });
+}
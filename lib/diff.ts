@@ -0,0 +1,100 @@
+/**
+ * Line Diff
+ * Minimal LCS-based line diff used to compare archived source versions.
+ */
+
+export interface DiffLine {
+  type: "added" | "removed" | "unchanged";
+  line: string;
+}
+
+/**
+ * Longest text diffLines accepts, in lines per side; the LCS table grows
+ * with the product of both line counts
+ */
+export const MAX_DIFF_LINES = 2000;
+
+/**
+ * Split a text into lines
+ * @param text - Text with LF or CRLF line endings
+ * @returns Lines without line endings
+ */
+function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+/**
+ * Diff two texts line by line
+ * Lines shared at the start and end are matched before building the table.
+ * @param before - Original text
+ * @param after - Changed text
+ * @returns Ordered list of added, removed and unchanged lines, or null if
+ *   either text has more than MAX_DIFF_LINES lines
+ */
+export function diffLines(before: string, after: string): DiffLine[] | null {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) return null;
+
+  // Common prefix and suffix need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  // (both relative to the end of the common prefix)
+  const rows = endA - start;
+  const cols = endB - start;
+  const lcs = Array.from({ length: rows + 1 }, () =>
+    new Uint16Array(cols + 1)
+  );
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[start + i] === b[start + j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a
+    .slice(0, start)
+    .map((line) => ({ type: "unchanged", line }));
+  let i = 0;
+  let j = 0;
+
+  while (i < rows && j < cols) {
+    if (a[start + i] === b[start + j]) {
+      result.push({ type: "unchanged", line: a[start + i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", line: a[start + i++] });
+    } else {
+      result.push({ type: "added", line: b[start + j++] });
+    }
+  }
+  while (i < rows) result.push({ type: "removed", line: a[start + i++] });
+  while (j < cols) result.push({ type: "added", line: b[start + j++] });
+
+  for (const line of a.slice(endA)) result.push({ type: "unchanged", line });
+
+  return result;
+}
+
+/**
+ * Render a diff in unified-style text ("+", "-" and " " prefixes)
+ * @param diff - Diff lines from diffLines
+ * @returns Text diff
+ */
+export function formatDiff(diff: DiffLine[]): string {
+  const prefixes = { added: "+", removed: "-", unchanged: " " };
+  return diff.map((d) => `${prefixes[d.type]} ${d.line}`).join("\n");
+}
@@ -0,0 +1,138 @@
+import { parseDurationSeconds } from "./training-method";
+import type {
+  DaySchedule,
+  DurationSummary,
+  TrainingSession,
+  WeekSchedule,
+} from "./types";
+
+/**
+ * Session Durations
+ * Numeric main part durations (minutes) next to the raw "21 min" strings,
+ * so sessions can be sorted, totalled and filtered by length.
+ */
+
+/**
+ * Parse a main part duration into minutes
+ * @param text - e.g. "21 min", "1:30", "2,5 min"
+ * @returns Minutes (one decimal), or null if no single duration was found
+ */
+export function parseDurationMinutes(text: string): number | null {
+  const seconds = parseDurationSeconds(text);
+  return seconds === null ? null : Math.round(seconds / 6) / 10;
+}
+
+/**
+ * Total and longest main part duration of a set of sessions
+ * Sessions whose duration couldn't be parsed are left out.
+ * @param sessions - Training sessions with durationMinutes set
+ * @returns Duration summary
+ */
+export function summarizeDurations(
+  sessions: TrainingSession[]
+): DurationSummary {
+  const minutes = sessions
+    .map((session) => session.durationMinutes)
+    .filter((value): value is number => typeof value === "number");
+
+  return {
+    totalMinutes: Math.round(minutes.reduce((sum, m) => sum + m, 0) * 10) / 10,
+    maxMinutes: minutes.length > 0 ? Math.max(...minutes) : 0,
+    timedSessions: minutes.length,
+  };
+}
+
+/**
+ * Attach numeric durations to every session of a day and summarize them
+ * Stored values are replaced, so parser fixes apply to days parsed before.
+ * @param day - Day schedule
+ * @returns Day schedule with durations and a duration summary
+ */
+export function withDurations(day: DaySchedule): DaySchedule {
+  const trainingSessions = day.trainingSessions.map((session) => ({
+    ...session,
+    durationMinutes: parseDurationMinutes(session.mainPartDuration),
+  }));
+
+  return {
+    ...day,
+    trainingSessions,
+    durationSummary: summarizeDurations(trainingSessions),
+  };
+}
+
+/**
+ * Parse the durations of all sessions of a parsed week
+ * @param schedule - Parsed week schedule
+ * @returns Schedule with durations (parsed from scratch) and the unique
+ *   non-empty durations that couldn't be parsed
+ */
+export function parseWeekDurations(schedule: WeekSchedule): {
+  schedule: WeekSchedule;
+  unparsed: string[];
+} {
+  const unparsed = new Set<string>();
+
+  const days = schedule.days.map((day) =>
+    withDurations({
+      ...day,
+      trainingSessions: day.trainingSessions.map((session) => {
+        const durationMinutes = parseDurationMinutes(session.mainPartDuration);
+        if (durationMinutes === null && session.mainPartDuration.trim()) {
+          unparsed.add(session.mainPartDuration.trim());
+        }
+        return { ...session, durationMinutes };
+      }),
+    })
+  );
+
+  return {
+    schedule: { ...schedule, days, durationSummary: summarizeWeek(days) },
+    unparsed: [...unparsed],
+  };
+}
+
+/**
+ * Summarize a week from its days
+ * @param days - Day schedules with durations
+ * @returns Duration summary over all sessions of the week
+ */
+export function summarizeWeek(days: DaySchedule[]): DurationSummary {
+  return summarizeDurations(days.flatMap((day) => day.trainingSessions));
+}
+
+export type DurationRank = "shortest" | "longest";
+
+/**
+ * Mark the shortest and longest sessions of a day
+ * Only set when at least two sessions have different durations.
+ * @param sessions - Training sessions with durationMinutes set
+ * @returns Rank per session (undefined for sessions in between)
+ */
+export function getDurationRanks(
+  sessions: TrainingSession[]
+): Array<DurationRank | undefined> {
+  const minutes = sessions
+    .map((session) => session.durationMinutes)
+    .filter((value): value is number => typeof value === "number");
+  const min = Math.min(...minutes);
+  const max = Math.max(...minutes);
+  if (minutes.length < 2 || min === max) return sessions.map(() => undefined);
+
+  return sessions.map((session) =>
+    session.durationMinutes === min
+      ? "shortest"
+      : session.durationMinutes === max
+      ? "longest"
+      : undefined
+  );
+}
+
+/**
+ * Format minutes the way the blog writes durations, e.g. 2.5 → "2,5 min"
+ * @param minutes - Minutes
+ * @returns Formatted duration
+ */
+export function formatMinutes(minutes: number): string {
+  return `${String(minutes).replace(".", ",")} min`;
+}
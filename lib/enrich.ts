@@ -0,0 +1,61 @@
+import { classifyWeekSchedule, withCanonicalTypes } from "./training-types";
+import { linkWeekExercises, withExerciseRefs } from "./exercises";
+import { parseTrainingMethod, withParsedMethods } from "./training-method";
+import { parseWeekDurations, withDurations } from "./durations";
+import type { DaySchedule, WeekSchedule } from "./types";
+
+/**
+ * Session Enrichment
+ * Derived, structured fields stored next to the raw blog strings: canonical
+ * training type, exercise dictionary links, the parsed training method and
+ * the main part duration in minutes.
+ */
+
+/**
+ * Derive structured fields for a freshly parsed week
+ * Always recomputed, so values filled in by the LLM are never trusted.
+ * @param schedule - Parsed week schedule
+ * @returns Enriched schedule and the raw values queued for review
+ */
+export function enrichWeekSchedule(schedule: WeekSchedule): {
+  schedule: WeekSchedule;
+  unknownTypes: string[];
+  unmatchedExercises: string[];
+  unparsedDurations: string[];
+} {
+  const { schedule: classified, unknownTypes } =
+    classifyWeekSchedule(schedule);
+  const { schedule: linked, unmatched } = linkWeekExercises(classified);
+  const { schedule: timed, unparsed } = parseWeekDurations(linked);
+
+  return {
+    schedule: {
+      ...timed,
+      days: timed.days.map((day) => ({
+        ...day,
+        trainingSessions: day.trainingSessions.map((session) => ({
+          ...session,
+          parsedMethod: parseTrainingMethod(session.trainingMethod),
+        })),
+      })),
+    },
+    unknownTypes,
+    unmatchedExercises: unmatched,
+    unparsedDurations: unparsed,
+  };
+}
+
+/**
+ * Recompute the structured fields of a stored day
+ * Derived from the raw strings on every read, so stored values never go
+ * stale: taxonomy, dictionary and parser changes apply to all stored days
+ * (and match the review queues, which check against the current rules)
+ * without re-parsing, and manually corrected sessions are covered too.
+ * @param day - Day schedule
+ * @returns Day schedule with all derived fields
+ */
+export function enrichDaySchedule(day: DaySchedule): DaySchedule {
+  return withDurations(
+    withParsedMethods(withExerciseRefs(withCanonicalTypes(day)))
+  );
+}
@@ -0,0 +1,174 @@
+import {
+  getExercise,
+  linkExercises,
+  normalizeExerciseName,
+} from "./exercises";
+import { classifyTrainingType, getFamilyLabel } from "./training-types";
+import type {
+  DaySchedule,
+  ExerciseStats,
+  ExerciseStatsReport,
+  TrainingSession,
+} from "./types";
+
+/**
+ * Exercise Statistics
+ * Frequency per month, training types, first/last appearance and most
+ * common pairings of every exercise in the stored schedules. Exercises are
+ * counted by dictionary ID, so "DU" and "Double unders" are one exercise;
+ * movements missing from the dictionary are counted by normalized name.
+ */
+
+const MAX_PAIRS = 5;
+
+interface Accumulator {
+  name: string;
+  known: boolean;
+  sessions: number;
+  byMonth: Record<string, number>;
+  families: Record<string, number>;
+  firstSeen: string;
+  lastSeen: string;
+  pairs: Record<string, number>;
+}
+
+/**
+ * Exercises of a session, each counted once
+ * @param session - Training session
+ * @returns Exercise keys with display names
+ */
+function sessionExercises(
+  session: TrainingSession
+): Map<string, { name: string; known: boolean }> {
+  const refs = session.exerciseRefs ?? linkExercises(session.exercises);
+  const exercises = new Map<string, { name: string; known: boolean }>();
+
+  for (const movement of refs.flatMap((ref) => ref.movements)) {
+    if (movement.ids.length === 0) {
+      const key = normalizeExerciseName(movement.text);
+      if (key) {
+        exercises.set(key, { name: movement.text.trim(), known: false });
+      }
+      continue;
+    }
+    for (const id of movement.ids) {
+      exercises.set(id, { name: getExercise(id)?.name ?? id, known: true });
+    }
+  }
+
+  return exercises;
+}
+
+/**
+ * List every month between two dates
+ * @param from - First date (YYYY-MM-DD)
+ * @param to - Last date (YYYY-MM-DD)
+ * @returns Months as YYYY-MM, in order
+ */
+function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  let [year, month] = from.split("-").map(Number);
+  const last = to.slice(0, 7);
+
+  for (;;) {
+    const current = `${year}-${String(month).padStart(2, "0")}`;
+    months.push(current);
+    if (current >= last) return months;
+    if (++month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+}
+
+/**
+ * Compute exercise statistics from day schedules
+ * @param days - Day schedules with ISO dates (any order)
+ * @returns Report with exercises sorted by number of sessions
+ */
+export function computeExerciseStats(
+  days: DaySchedule[]
+): ExerciseStatsReport {
+  const stats = new Map<string, Accumulator>();
+  const dates: string[] = [];
+  let totalSessions = 0;
+
+  for (const day of days) {
+    const isoDate = day.isoDate;
+    if (!isoDate || day.trainingSessions.length === 0) continue;
+    dates.push(isoDate);
+
+    for (const session of day.trainingSessions) {
+      totalSessions++;
+      const family = (
+        session.canonicalType ?? classifyTrainingType(session.type)
+      ).family;
+      const exercises = sessionExercises(session);
+
+      for (const [key, { name, known }] of exercises) {
+        const entry = stats.get(key) ?? {
+          name,
+          known,
+          sessions: 0,
+          byMonth: {},
+          families: {},
+          firstSeen: isoDate,
+          lastSeen: isoDate,
+          pairs: {},
+        };
+
+        entry.sessions++;
+        const month = isoDate.slice(0, 7);
+        entry.byMonth[month] = (entry.byMonth[month] ?? 0) + 1;
+        entry.families[family] = (entry.families[family] ?? 0) + 1;
+        if (isoDate < entry.firstSeen) entry.firstSeen = isoDate;
+        if (isoDate > entry.lastSeen) entry.lastSeen = isoDate;
+        for (const other of exercises.keys()) {
+          if (other === key) continue;
+          entry.pairs[other] = (entry.pairs[other] ?? 0) + 1;
+        }
+
+        stats.set(key, entry);
+      }
+    }
+  }
+
+  dates.sort();
+  const from = dates[0] ?? null;
+  const to = dates[dates.length - 1] ?? null;
+
+  const exercises: ExerciseStats[] = [...stats.entries()]
+    .map(([id, entry]) => ({
+      id,
+      name: entry.name,
+      known: entry.known,
+      sessions: entry.sessions,
+      byMonth: entry.byMonth,
+      types: Object.entries(entry.families)
+        .map(([family, sessions]) => ({
+          family,
+          label: getFamilyLabel(family),
+          sessions,
+        }))
+        .sort((a, b) => b.sessions - a.sessions),
+      firstSeen: entry.firstSeen,
+      lastSeen: entry.lastSeen,
+      pairedWith: Object.entries(entry.pairs)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_PAIRS)
+        .map(([other, sessions]) => ({
+          id: other,
+          name: stats.get(other)?.name ?? other,
+          sessions,
+        })),
+    }))
+    .sort((a, b) => b.sessions - a.sessions || a.name.localeCompare(b.name));
+
+  return {
+    from,
+    to,
+    months: from && to ? monthsBetween(from, to) : [],
+    totalSessions,
+    exercises,
+  };
+}
@@ -0,0 +1,655 @@
+import { getWeekBounds } from "./dates";
+import { foldText } from "./text";
+import type {
+  DaySchedule,
+  ExerciseRef,
+  TrainingSession,
+  WeekSchedule,
+} from "./types";
+
+/**
+ * Exercise Dictionary
+ * Curated list of movements with canonical IDs, aliases (Polish names and
+ * the blog's abbreviations) and equipment. Raw exercise strings such as
+ * "DU (skakanka)" or "DB's hang muscle clean + push press" are linked to
+ * entries at ingest time.
+ */
+
+export type Equipment =
+  | "jump-rope"
+  | "ski-erg"
+  | "bike-erg"
+  | "row-erg"
+  | "box"
+  | "dumbbell"
+  | "kettlebell"
+  | "barbell"
+  | "slam-ball"
+  | "wall-ball"
+  | "medicine-ball"
+  | "sandbag"
+  | "sled"
+  | "pull-up-bar";
+
+export interface ExerciseEntry {
+  id: string; // Stable identifier, e.g. "double-under"
+  name: string; // Display name
+  aliases: string[]; // Normalized spellings (lowercase, no diacritics)
+  equipment: Equipment[];
+}
+
+export const EQUIPMENT_LABELS: Record<Equipment, string> = {
+  "jump-rope": "Skakanka",
+  "ski-erg": "SkiErg",
+  "bike-erg": "BikeErg",
+  "row-erg": "Wioślarz",
+  box: "Skrzynia",
+  dumbbell: "Hantle",
+  kettlebell: "Kettlebell",
+  barbell: "Sztanga",
+  "slam-ball": "Slam ball",
+  "wall-ball": "Wall ball",
+  "medicine-ball": "Piłka lekarska",
+  sandbag: "Sandbag",
+  sled: "Sanki",
+  "pull-up-bar": "Drążek",
+};
+
+export const EXERCISES: ExerciseEntry[] = [
+  // Cardio and machines
+  {
+    id: "double-under",
+    name: "Double unders",
+    aliases: ["du", "double under", "podwojne przeskoki", "skakanka"],
+    equipment: ["jump-rope"],
+  },
+  {
+    id: "single-under",
+    name: "Single unders",
+    aliases: ["su", "single under", "przeskoki"],
+    equipment: ["jump-rope"],
+  },
+  {
+    id: "ski-erg",
+    name: "SkiErg",
+    aliases: ["ski", "ski erg", "skierg"],
+    equipment: ["ski-erg"],
+  },
+  {
+    id: "bike-erg",
+    name: "BikeErg",
+    aliases: ["bike", "bike erg", "bikeerg", "assault bike", "air bike"],
+    equipment: ["bike-erg"],
+  },
+  {
+    id: "row-erg",
+    name: "Wioślarz",
+    aliases: ["row", "row erg", "rowerg", "wioslarz", "wioslowanie"],
+    equipment: ["row-erg"],
+  },
+  {
+    id: "run",
+    name: "Bieg",
+    aliases: ["run", "bieg", "bieganie"],
+    equipment: [],
+  },
+  {
+    id: "sled-push",
+    name: "Sled push",
+    aliases: ["sled push", "pchanie sanek"],
+    equipment: ["sled"],
+  },
+  {
+    id: "sled-pull",
+    name: "Sled pull",
+    aliases: ["sled pull", "ciagniecie sanek"],
+    equipment: ["sled"],
+  },
+
+  // Jumps and bodyweight
+  {
+    id: "box-jump",
+    name: "Box jump",
+    aliases: ["box jump", "bj"],
+    equipment: ["box"],
+  },
+  {
+    id: "box-jump-over",
+    name: "Box jump over",
+    aliases: ["box jump over", "bjo"],
+    equipment: ["box"],
+  },
+  {
+    id: "step-up",
+    name: "Step up",
+    aliases: ["step up", "box step up", "wejscia na skrzynie"],
+    equipment: ["box"],
+  },
+  {
+    id: "broad-jump",
+    name: "Broad jump",
+    aliases: ["broad jump", "skok w dal"],
+    equipment: [],
+  },
+  {
+    id: "burpee",
+    name: "Burpee",
+    aliases: ["burpee", "burpees"],
+    equipment: [],
+  },
+  {
+    id: "burpee-broad-jump",
+    name: "Burpee broad jump",
+    aliases: ["burpee broad jump", "bbj"],
+    equipment: [],
+  },
+  {
+    id: "burpee-box-jump-over",
+    name: "Burpee box jump over",
+    aliases: ["burpee box jump over", "bbjo"],
+    equipment: ["box"],
+  },
+  {
+    id: "air-squat",
+    name: "Przysiad",
+    aliases: ["squat", "air squat", "przysiad", "przysiady"],
+    equipment: [],
+  },
+  {
+    id: "lunge",
+    name: "Wykroki",
+    aliases: ["lunge", "walking lunge", "wykrok", "wykroki"],
+    equipment: [],
+  },
+  {
+    id: "push-up",
+    name: "Pompki",
+    aliases: ["push up", "pompka", "pompki"],
+    equipment: [],
+  },
+  {
+    id: "sit-up",
+    name: "Brzuszki",
+    aliases: ["sit up", "brzuszki"],
+    equipment: [],
+  },
+  {
+    id: "v-up",
+    name: "V-up",
+    aliases: ["v up", "scyzoryki"],
+    equipment: [],
+  },
+  {
+    id: "plank",
+    name: "Deska",
+    aliases: ["plank", "deska"],
+    equipment: [],
+  },
+  {
+    id: "mountain-climber",
+    name: "Mountain climbers",
+    aliases: ["mountain climber", "wspinaczka"],
+    equipment: [],
+  },
+  {
+    id: "jumping-jack",
+    name: "Pajacyki",
+    aliases: ["jumping jack", "pajacyki"],
+    equipment: [],
+  },
+  {
+    id: "bear-crawl",
+    name: "Bear crawl",
+    aliases: ["bear crawl", "chod niedzwiedzia"],
+    equipment: [],
+  },
+
+  // Gymnastics
+  {
+    id: "pull-up",
+    name: "Podciąganie",
+    aliases: ["pull up", "podciaganie", "podciagniecia"],
+    equipment: ["pull-up-bar"],
+  },
+  {
+    id: "chest-to-bar",
+    name: "Chest to bar",
+    aliases: ["chest to bar", "c2b", "ctb"],
+    equipment: ["pull-up-bar"],
+  },
+  {
+    id: "toes-to-bar",
+    name: "Toes to bar",
+    aliases: ["toes to bar", "t2b", "ttb"],
+    equipment: ["pull-up-bar"],
+  },
+  {
+    id: "knees-to-elbow",
+    name: "Knees to elbow",
+    aliases: ["knees to elbow", "k2e", "kte"],
+    equipment: ["pull-up-bar"],
+  },
+  {
+    id: "muscle-up",
+    name: "Muscle up",
+    aliases: ["muscle up", "bar muscle up", "mu"],
+    equipment: ["pull-up-bar"],
+  },
+  {
+    id: "dip",
+    name: "Dipy",
+    aliases: ["dip", "dipy", "pompki na poreczach"],
+    equipment: [],
+  },
+  {
+    id: "handstand-push-up",
+    name: "Handstand push up",
+    aliases: ["handstand push up", "hspu"],
+    equipment: [],
+  },
+
+  // Weightlifting and loaded movements
+  {
+    id: "clean",
+    name: "Clean",
+    aliases: ["clean", "zarzut"],
+    equipment: [],
+  },
+  {
+    id: "power-clean",
+    name: "Power clean",
+    aliases: ["power clean", "pc"],
+    equipment: [],
+  },
+  {
+    id: "hang-power-clean",
+    name: "Hang power clean",
+    aliases: ["hang power clean", "hpc"],
+    equipment: [],
+  },
+  {
+    id: "muscle-clean",
+    name: "Muscle clean",
+    aliases: ["muscle clean"],
+    equipment: [],
+  },
+  {
+    id: "hang-muscle-clean",
+    name: "Hang muscle clean",
+    aliases: ["hang muscle clean"],
+    equipment: [],
+  },
+  {
+    id: "snatch",
+    name: "Snatch",
+    aliases: ["snatch", "rwanie"],
+    equipment: [],
+  },
+  {
+    id: "push-press",
+    name: "Push press",
+    aliases: ["push press", "pp"],
+    equipment: [],
+  },
+  {
+    id: "push-jerk",
+    name: "Push jerk",
+    aliases: ["push jerk", "pj"],
+    equipment: [],
+  },
+  {
+    id: "shoulder-press",
+    name: "Wyciskanie nad głowę",
+    aliases: ["shoulder press", "strict press", "wyciskanie nad glowe"],
+    equipment: [],
+  },
+  {
+    id: "thruster",
+    name: "Thruster",
+    aliases: ["thruster", "thrusters"],
+    equipment: [],
+  },
+  {
+    id: "deadlift",
+    name: "Martwy ciąg",
+    aliases: ["deadlift", "dl", "martwy ciag"],
+    equipment: [],
+  },
+  {
+    id: "front-squat",
+    name: "Front squat",
+    aliases: ["front squat", "przysiad przedni"],
+    equipment: [],
+  },
+  {
+    id: "goblet-squat",
+    name: "Goblet squat",
+    aliases: ["goblet squat", "przysiad goblet"],
+    equipment: [],
+  },
+  {
+    id: "swing",
+    name: "Swing",
+    aliases: ["swing", "american swing", "russian swing", "swingi"],
+    equipment: ["kettlebell"],
+  },
+  {
+    id: "devil-press",
+    name: "Devil press",
+    aliases: ["devil press"],
+    equipment: ["dumbbell"],
+  },
+  {
+    id: "renegade-row",
+    name: "Renegade row",
+    aliases: ["renegade row"],
+    equipment: ["dumbbell"],
+  },
+  {
+    id: "farmers-carry",
+    name: "Farmer's carry",
+    aliases: [
+      "farmers carry",
+      "farmer carry",
+      "farmers walk",
+      "spacer farmera",
+    ],
+    equipment: [],
+  },
+  {
+    id: "wall-ball",
+    name: "Wall ball",
+    aliases: ["wall ball", "wallball", "wb"],
+    equipment: ["wall-ball"],
+  },
+  {
+    id: "slam-ball",
+    name: "Slam ball",
+    aliases: ["slam ball", "ball slam"],
+    equipment: ["slam-ball"],
+  },
+  {
+    id: "ball-lift",
+    name: "Ball lift",
+    aliases: ["lift", "ball lift", "ball over shoulder"],
+    equipment: [],
+  },
+  {
+    id: "russian-twist",
+    name: "Russian twist",
+    aliases: ["russian twist"],
+    equipment: [],
+  },
+  {
+    id: "hip-thrust",
+    name: "Hip thrust",
+    aliases: ["hip thrust"],
+    equipment: [],
+  },
+];
+
+/**
+ * Implement prefixes that name the tool rather than the movement
+ * ("DB's hang muscle clean", "slam ball lunge"), longest first
+ */
+const EQUIPMENT_PREFIXES: Array<{ prefix: string; equipment: Equipment }> = [
+  { prefix: "medicine ball", equipment: "medicine-ball" },
+  { prefix: "slam ball", equipment: "slam-ball" },
+  { prefix: "kettlebell", equipment: "kettlebell" },
+  { prefix: "dumbbell", equipment: "dumbbell" },
+  { prefix: "med ball", equipment: "medicine-ball" },
+  { prefix: "sandbag", equipment: "sandbag" },
+  { prefix: "barbell", equipment: "barbell" },
+  { prefix: "sztanga", equipment: "barbell" },
+  { prefix: "hantle", equipment: "dumbbell" },
+  { prefix: "hantla", equipment: "dumbbell" },
+  { prefix: "worek", equipment: "sandbag" },
+  { prefix: "dbs", equipment: "dumbbell" },
+  { prefix: "db", equipment: "dumbbell" },
+  { prefix: "kb", equipment: "kettlebell" },
+  { prefix: "bb", equipment: "barbell" },
+];
+
+/**
+ * Polish "with ..." suffixes naming the tool ("wykroki z hantlami")
+ */
+const EQUIPMENT_SUFFIXES: Array<{ pattern: RegExp; equipment: Equipment }> = [
+  { pattern: / z (?:hantla|hantlami|hantlem)$/, equipment: "dumbbell" },
+  { pattern: / z (?:kettlem|kettlami|kettlebellem)$/, equipment: "kettlebell" },
+  { pattern: / ze sztanga$/, equipment: "barbell" },
+  { pattern: / z (?:workiem|sandbagiem)$/, equipment: "sandbag" },
+  { pattern: / z pilka lekarska$/, equipment: "medicine-ball" },
+];
+
+// Leading amounts, e.g. "cal", "20 cal", "200m", "10x"
+const QUANTITY_PATTERN =
+  /^(?:\d+(?:[.,]\d+)?\s*(?:x|m|km|cal|kal|kcal|powt|rep|reps|s|sek)?\.?\s+)?(?:(?:cal|kal|kcal|max)\s+)?/;
+
+const ALIAS_INDEX = new Map<string, ExerciseEntry>(
+  EXERCISES.flatMap((entry) =>
+    [entry.id.replace(/-/g, " "), ...entry.aliases].map(
+      (alias) => [alias, entry] as const
+    )
+  )
+);
+
+/**
+ * Fold case, diacritics and punctuation
+ * @param value - Raw exercise text
+ * @returns Normalized text used for alias lookups
+ */
+export function normalizeExerciseName(value: string): string {
+  return foldText(value)
+    .replace(/['’`]/g, "")
+    .replace(/[-_]/g, " ")
+    .replace(/[^a-z0-9/ ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Look up a normalized name, also trying a singular form
+ */
+function lookupAlias(name: string): ExerciseEntry | undefined {
+  return (
+    ALIAS_INDEX.get(name) ??
+    ALIAS_INDEX.get(name.replace(/es$/, "")) ??
+    ALIAS_INDEX.get(name.replace(/s$/, ""))
+  );
+}
+
+/**
+ * Match a single movement (no "+" combos or "/" alternatives)
+ * @param text - Normalized movement text
+ * @returns Dictionary entry (if any) and equipment named by prefixes
+ */
+function matchMovement(text: string): {
+  entry?: ExerciseEntry;
+  equipment: Equipment[];
+} {
+  let name = text.replace(QUANTITY_PATTERN, "").trim();
+  const equipment: Equipment[] = [];
+
+  const suffix = EQUIPMENT_SUFFIXES.find((s) => s.pattern.test(name));
+  if (suffix) {
+    equipment.push(suffix.equipment);
+    name = name.replace(suffix.pattern, "");
+  }
+
+  let entry = lookupAlias(name);
+  while (!entry) {
+    const prefix = EQUIPMENT_PREFIXES.find(
+      (p) => name === p.prefix || name.startsWith(`${p.prefix} `)
+    );
+    if (!prefix || name === prefix.prefix) break;
+
+    equipment.push(prefix.equipment);
+    name = name.slice(prefix.prefix.length).trim();
+    entry = lookupAlias(name);
+  }
+
+  return { entry, equipment };
+}
+
+/**
+ * Link a raw exercise string to dictionary entries
+ * Combos joined by "+" become separate movements; "/" separates
+ * alternatives ("SKI/bike ERG"), and text in parentheses is used as a
+ * fallback ("DU (skakanka)").
+ * @param raw - Exercise as written on the blog
+ * @returns Linked movements, their equipment, and the unmatched parts
+ */
+export function linkExercise(raw: string): ExerciseRef & {
+  unmatched: string[];
+} {
+  const unmatched: string[] = [];
+  const equipment = new Set<Equipment>();
+
+  const movements = raw
+    .split("+")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const hint = part.match(/\(([^)]*)\)/)?.[1];
+      const text = normalizeExerciseName(part.replace(/\([^)]*\)/g, " "));
+
+      // "ski/bike erg" → "ski erg", "bike erg"
+      const [first, ...rest] = text.split("/").map((alt) => alt.trim());
+      const lastWords = rest.length > 0 ? rest[rest.length - 1].split(" ") : [];
+      const suffix = lastWords.length > 1 ? lastWords.slice(1).join(" ") : "";
+      const alternatives = [
+        suffix && !first.includes(" ") ? `${first} ${suffix}` : first,
+        ...rest,
+      ].filter(Boolean);
+
+      const ids: string[] = [];
+      for (const alternative of alternatives) {
+        let match = matchMovement(alternative);
+        if (!match.entry && hint) {
+          match = matchMovement(normalizeExerciseName(hint));
+        }
+
+        match.equipment.forEach((item) => equipment.add(item));
+        if (match.entry) {
+          ids.push(match.entry.id);
+          match.entry.equipment.forEach((item) => equipment.add(item));
+        } else {
+          unmatched.push(alternative);
+        }
+      }
+
+      return { text: part, ids: [...new Set(ids)] };
+    });
+
+  return { movements, equipment: [...equipment], unmatched };
+}
+
+/**
+ * Link all exercises of a session
+ * @param exercises - Raw exercise strings
+ * @returns References in the same order as the exercises
+ */
+export function linkExercises(exercises: string[]): ExerciseRef[] {
+  return exercises.map((exercise) => {
+    const { movements, equipment } = linkExercise(exercise);
+    return { movements, equipment };
+  });
+}
+
+/**
+ * Get a dictionary entry by ID
+ * @param id - Exercise ID
+ * @returns Entry or undefined
+ */
+export function getExercise(id: string): ExerciseEntry | undefined {
+  return EXERCISES.find((entry) => entry.id === id);
+}
+
+/**
+ * Attach exercise references to every session of a day
+ * Stored values are replaced, so entries and aliases added to the
+ * dictionary apply to days linked before.
+ * @param day - Day schedule
+ * @returns Day schedule with exercise references
+ */
+export function withExerciseRefs(day: DaySchedule): DaySchedule {
+  return {
+    ...day,
+    trainingSessions: day.trainingSessions.map((session) => ({
+      ...session,
+      exerciseRefs: linkExercises(session.exercises),
+    })),
+  };
+}
+
+/**
+ * Dictionary exercise IDs used by sessions, each listed once
+ * @param sessions - Training sessions with exercise references
+ * @returns Exercise IDs
+ */
+export function getSessionExerciseIds(sessions: TrainingSession[]): string[] {
+  const ids = sessions.flatMap((session) =>
+    (session.exerciseRefs ?? []).flatMap((ref) =>
+      ref.movements.flatMap((movement) => movement.ids)
+    )
+  );
+  return [...new Set(ids)];
+}
+
+/**
+ * Mark exercises that appear for the first time on a day
+ * Nothing is marked in the earliest stored week, which has no older plans
+ * to compare with.
+ * @param day - Day schedule with its ISO date and exercise references
+ * @param firstSeen - Earliest date (YYYY-MM-DD) per dictionary exercise ID
+ * @returns Day schedule with `newExercises` set on every session
+ */
+export function withNewExercises(
+  day: DaySchedule,
+  firstSeen: Record<string, string>
+): DaySchedule {
+  const isoDate = day.isoDate;
+  const historyStart = Object.values(firstSeen).sort()[0];
+  const hasHistory =
+    !!isoDate && !!historyStart && historyStart < getWeekBounds(isoDate).start;
+
+  return {
+    ...day,
+    trainingSessions: day.trainingSessions.map((session) => ({
+      ...session,
+      newExercises: hasHistory
+        ? getSessionExerciseIds([session]).filter(
+            (id) => firstSeen[id] === isoDate
+          )
+        : [],
+    })),
+  };
+}
+
+/**
+ * Link the exercises of a parsed week
+ * @param schedule - Parsed week schedule
+ * @returns Schedule with exercise references and the unique movement names
+ *   that matched no dictionary entry
+ */
+export function linkWeekExercises(schedule: WeekSchedule): {
+  schedule: WeekSchedule;
+  unmatched: string[];
+} {
+  const unmatched = new Set<string>();
+
+  const days = schedule.days.map((day) => ({
+    ...day,
+    trainingSessions: day.trainingSessions.map((session) => ({
+      ...session,
+      exerciseRefs: session.exercises.map((exercise) => {
+        const { movements, equipment, unmatched: missing } =
+          linkExercise(exercise);
+        missing.forEach((name) => unmatched.add(name));
+        return { movements, equipment };
+      }),
+    })),
+  }));
+
+  return { schedule: { ...schedule, days }, unmatched: [...unmatched] };
+}
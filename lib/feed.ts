@@ -0,0 +1,122 @@
+import type { StoredWeek, WeekSchedule } from "./types";
+import { parseWeekId, resolveDayInWeek } from "./dates";
+
+/**
+ * Atom Feed
+ * Announces stored training weeks (one entry per week) so feed readers and
+ * automation tools can react to a new plan without polling the JSON API.
+ */
+
+export interface FeedEntry {
+  week: StoredWeek;
+  schedule: WeekSchedule;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Link to the app's page for a single day
+ */
+function dayUrl(baseUrl: string, isoDate: string): string {
+  return `${baseUrl}/?date=${isoDate}`;
+}
+
+/**
+ * Human-readable week title, e.g. "20.10.2025 – 26.10.2025"
+ */
+function formatWeekTitle(week: string): string {
+  const bounds = parseWeekId(week);
+  if (!bounds) return week;
+
+  const format = (isoDate: string) => isoDate.split("-").reverse().join(".");
+  return `${format(bounds.start)} – ${format(bounds.end)}`;
+}
+
+/**
+ * Render the per-day session summary of a week as HTML
+ */
+function buildEntryContent(schedule: WeekSchedule, baseUrl: string): string {
+  return schedule.days
+    .map((day) => {
+      const isoDate = resolveDayInWeek(day.date, schedule.week);
+      const heading = `${day.dayName} ${day.date}`;
+      const title = isoDate
+        ? `<a href="${escapeXml(dayUrl(baseUrl, isoDate))}">${escapeXml(
+            heading
+          )}</a>`
+        : escapeXml(heading);
+
+      const sessions = day.trainingSessions
+        .map(
+          (session) =>
+            `<li><strong>${escapeXml(session.type)}</strong> – ${escapeXml(
+              session.mainPartDuration
+            )}, ${escapeXml(session.trainingMethod)}<br/>${escapeXml(
+              session.exercises.join(", ")
+            )}</li>`
+        )
+        .join("");
+
+      return `<h3>${title}</h3>${
+        sessions ? `<ul>${sessions}</ul>` : "<p>Brak treningów</p>"
+      }`;
+    })
+    .join("");
+}
+
+/**
+ * Render stored weeks as an Atom feed
+ * @param entries - Week metadata with reassembled schedules, newest first
+ * @param baseUrl - Public app URL (without trailing slash)
+ * @returns Atom XML document
+ */
+export function buildAtomFeed(entries: FeedEntry[], baseUrl: string): string {
+  const updated = entries.reduce(
+    (latest, { week }) => (week.scrapedAt > latest ? week.scrapedAt : latest),
+    new Date(0).toISOString()
+  );
+
+  const items = entries.map(({ week, schedule }) => {
+    const start = parseWeekId(week.week)?.start;
+    const link = start ? dayUrl(baseUrl, start) : baseUrl;
+    // Stable across domains and re-scrapes
+    const id = `tag:hardyplan.pl,2024:week/${start ?? week.week}`;
+
+    return [
+      "  <entry>",
+      `    <id>${escapeXml(id)}</id>`,
+      `    <title>${escapeXml(
+        `Plan treningowy: ${formatWeekTitle(week.week)}`
+      )}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(link)}"/>`,
+      `    <link rel="via" href="${escapeXml(week.sourceUrl)}"/>`,
+      `    <published>${week.firstStoredAt ?? week.scrapedAt}</published>`,
+      `    <updated>${week.scrapedAt}</updated>`,
+      `    <content type="html">${escapeXml(
+        buildEntryContent(schedule, baseUrl)
+      )}</content>`,
+      "  </entry>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="pl">',
+    `  <id>${escapeXml(`${baseUrl}/`)}</id>`,
+    "  <title>Co dziś w Hardym? - Plany treningowe</title>",
+    `  <link rel="self" href="${escapeXml(`${baseUrl}/api/feed.xml`)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(baseUrl)}"/>`,
+    `  <updated>${updated}</updated>`,
+    "  <author><name>Co dziś w Hardym?</name></author>",
+    ...items,
+    "</feed>",
+    "",
+  ].join("\n");
+}
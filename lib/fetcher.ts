@@ -0,0 +1,314 @@
+import { promises as fs } from "fs";
+import path from "path";
+import Firecrawl from "firecrawl";
+
+/**
+ * Page Fetcher
+ * Retrieves links and markdown for blog pages. Lets the scrape pipeline run
+ * on Firecrawl, on plain HTTP, or on a directory of recorded fixtures.
+ */
+export interface PageFetcher {
+  /** All link URLs found on the page (absolute) */
+  fetchLinks(url: string): Promise<string[]>;
+  /** Post body as markdown, plus publication time when available */
+  fetchMarkdown(url: string): Promise<FetchedPage>;
+}
+
+export interface FetchedPage {
+  markdown: string;
+  publishedAt?: string; // ISO timestamp
+}
+
+export type PageFetcherType = "firecrawl" | "native" | "fixtures";
+
+export interface PageFetcherConfig {
+  type: PageFetcherType;
+  fixturesDir?: string; // Only used by the fixtures fetcher
+}
+
+/**
+ * Thrown when a page doesn't exist (HTTP 404), e.g. a category listing
+ * page past the last one
+ */
+export class PageNotFoundError extends Error {
+  constructor(url: string, message = `Page not found: ${url}`) {
+    super(message);
+    this.name = "PageNotFoundError";
+  }
+}
+
+const DEFAULT_FIXTURES_DIR = "fixtures";
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Firecrawl fetcher (paid API)
+ */
+class FirecrawlFetcher implements PageFetcher {
+  private client = new Firecrawl({
+    apiKey: process.env.FIRECRAWL_API_KEY!,
+  });
+
+  async fetchLinks(url: string): Promise<string[]> {
+    const scrapeResult = await this.client.scrape(url, {
+      formats: ["links"],
+    });
+    if (scrapeResult.metadata?.statusCode === 404) {
+      throw new PageNotFoundError(url);
+    }
+
+    // Firecrawl SDK returns data directly, not wrapped in {success, data}
+    const links = (scrapeResult.links || []) as Array<
+      string | { url?: string }
+    >;
+
+    return links
+      .map((link) =>
+        typeof link === "string" ? link : (link as { url?: string }).url || ""
+      )
+      .filter(Boolean);
+  }
+
+  async fetchMarkdown(url: string): Promise<FetchedPage> {
+    const scrapeResult = await this.client.scrape(url, {
+      formats: ["markdown"],
+    });
+
+    return {
+      markdown: scrapeResult.markdown ?? "",
+      publishedAt: scrapeResult.metadata?.publishedTime,
+    };
+  }
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  rarr: "→",
+  rArr: "⇒",
+  ndash: "–",
+  mdash: "—",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return HTML_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Pick the element holding the post body
+ * Prefers <article>, then <main>, then <body>
+ */
+function extractPostBody(html: string): string {
+  for (const tag of ["article", "main", "body"]) {
+    const match = html.match(
+      new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*)</${tag}>`, "i")
+    );
+    if (match) return match[1];
+  }
+  return html;
+}
+
+/**
+ * Convert an HTML fragment to markdown
+ * Covers the elements used by the blog: headings, paragraphs, lists,
+ * bold text, links and line breaks. Everything else is reduced to text.
+ * @param html - HTML fragment
+ * @returns Markdown text
+ */
+export function htmlToMarkdown(html: string): string {
+  const markdown = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<(script|style|noscript|svg|nav|header|footer|form)\b[\s\S]*?<\/\1>/gi,
+      ""
+    )
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => {
+      return `\n\n${"#".repeat(Number(level))} ${text}\n\n`;
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, "**$2**")
+    .replace(/<a\b[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, "[$2]($1)")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|ul|ol|section|blockquote|tr|h[1-6])>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(markdown)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\*\*([ \t]*)\*\*/g, "$1")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Native fetcher (plain HTTP + built-in HTML-to-markdown conversion)
+ */
+class NativeFetcher implements PageFetcher {
+  private async fetchHtml(url: string): Promise<string> {
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent":
+          "hardyplan (+https://github.com/maciejkorolik/hardyplan)",
+        Accept: "text/html",
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.status === 404) {
+      throw new PageNotFoundError(url);
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${url}`);
+    }
+
+    return response.text();
+  }
+
+  async fetchLinks(url: string): Promise<string[]> {
+    const html = await this.fetchHtml(url);
+    const links: string[] = [];
+
+    for (const match of html.matchAll(/<a\b[^>]*href="([^"#]+)[^"]*"/gi)) {
+      try {
+        links.push(new URL(decodeEntities(match[1]), url).toString());
+      } catch {
+        // Ignore malformed hrefs
+      }
+    }
+
+    return Array.from(new Set(links));
+  }
+
+  async fetchMarkdown(url: string): Promise<FetchedPage> {
+    const html = await this.fetchHtml(url);
+    const publishedAt = html.match(
+      /<meta[^>]+property="article:published_time"[^>]+content="([^"]+)"/i
+    )?.[1];
+
+    return {
+      markdown: htmlToMarkdown(extractPostBody(html)),
+      publishedAt,
+    };
+  }
+}
+
+/**
+ * Fixture file contents, one JSON file per URL
+ */
+interface PageFixture {
+  links?: string[];
+  markdown?: string;
+  publishedAt?: string;
+}
+
+/**
+ * Fixture fetcher (offline development, tests)
+ * Reads `{dir}/{key}.json`, where key is the URL without protocol and
+ * with every non-alphanumeric character replaced by "_".
+ */
+class FixtureFetcher implements PageFetcher {
+  constructor(private dir: string) {}
+
+  static fixtureKey(url: string): string {
+    return url
+      .replace(/^https?:\/\//, "")
+      .replace(/\/$/, "")
+      .replace(/[^a-z0-9]+/gi, "_");
+  }
+
+  private async readFixture(url: string): Promise<PageFixture> {
+    const key = FixtureFetcher.fixtureKey(url);
+    const file = path.join(this.dir, `${key}.json`);
+    try {
+      return JSON.parse(await fs.readFile(file, "utf-8")) as PageFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new PageNotFoundError(
+          url,
+          `No fixture for ${url} (expected ${file})`
+        );
+      }
+      throw error;
+    }
+  }
+
+  async fetchLinks(url: string): Promise<string[]> {
+    return (await this.readFixture(url)).links ?? [];
+  }
+
+  async fetchMarkdown(url: string): Promise<FetchedPage> {
+    const fixture = await this.readFixture(url);
+    return {
+      markdown: fixture.markdown ?? "",
+      publishedAt: fixture.publishedAt,
+    };
+  }
+}
+
+/**
+ * Create a page fetcher from explicit configuration
+ * @param config - Fetcher type and options
+ * @returns Page fetcher instance
+ */
+export function createFetcher(config: PageFetcherConfig): PageFetcher {
+  switch (config.type) {
+    case "firecrawl":
+      return new FirecrawlFetcher();
+    case "native":
+      return new NativeFetcher();
+    case "fixtures":
+      return new FixtureFetcher(
+        path.resolve(config.fixturesDir || DEFAULT_FIXTURES_DIR)
+      );
+    default:
+      throw new Error(`Unknown page fetcher: ${config.type}`);
+  }
+}
+
+/**
+ * Read fetcher configuration from environment
+ * - PAGE_FETCHER: "firecrawl" (default), "native" or "fixtures"
+ * - FIXTURES_DIR: directory of JSON fixtures for the fixtures fetcher
+ */
+export function getFetcherConfig(): PageFetcherConfig {
+  const type = (process.env.PAGE_FETCHER || "firecrawl") as PageFetcherType;
+
+  return {
+    type,
+    fixturesDir: process.env.FIXTURES_DIR,
+  };
+}
+
+let fetcher: PageFetcher | null = null;
+
+/**
+ * Get the shared page fetcher (created lazily from environment)
+ * @returns Page fetcher instance
+ */
+export function getFetcher(): PageFetcher {
+  if (!fetcher) {
+    fetcher = createFetcher(getFetcherConfig());
+  }
+  return fetcher;
+}
+
+/**
+ * Replace the shared page fetcher (e.g. with a fixtures fetcher)
+ * @param pageFetcher - Page fetcher to use
+ */
+export function setFetcher(pageFetcher: PageFetcher): void {
+  fetcher = pageFetcher;
+}
@@ -0,0 +1,103 @@
+import type {
+  GroundingReport,
+  SessionVerification,
+  TrainingSession,
+  WeekSchedule,
+} from "./types";
+
+/**
+ * Source Grounding
+ * Confirms that every value in a parsed schedule actually appears in the
+ * scraped markdown, so hallucinated exercises or durations get flagged.
+ */
+
+/**
+ * Normalize text for containment checks
+ * Lowercases, drops markdown decoration and removes all whitespace so that
+ * line breaks and emphasis in the source don't cause false negatives.
+ * @param text - Raw text
+ * @returns Compact comparable string
+ */
+function normalizeForMatch(text: string): string {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/<br\s*\/?>/g, "")
+    .replace(/\\([!-/:-@[-`{-~])/g, "$1")
+    .replace(/[*_`]/g, "")
+    .replace(/\s+/g, "");
+}
+
+/**
+ * Verify a single session against normalized source markdown
+ * @param session - Parsed training session
+ * @param source - Normalized markdown (see normalizeForMatch)
+ * @returns Verification result with confidence and unmatched values
+ */
+function verifySession(
+  session: TrainingSession,
+  source: string
+): SessionVerification {
+  const values = [
+    session.type,
+    ...session.exercises,
+    session.trainingMethod,
+    session.mainPartDuration,
+  ];
+
+  const unmatched = values.filter((value) => {
+    const normalized = normalizeForMatch(value);
+    return !normalized || !source.includes(normalized);
+  });
+
+  const confidence =
+    values.length > 0 ? (values.length - unmatched.length) / values.length : 0;
+
+  return {
+    confidence: Math.round(confidence * 100) / 100,
+    flagged: unmatched.length > 0,
+    unmatched,
+  };
+}
+
+/**
+ * Check a parsed schedule against the markdown it was parsed from
+ * @param schedule - Parsed week schedule
+ * @param markdown - Source markdown of the blog post
+ * @returns Schedule with per-session verification attached, and a report
+ */
+export function verifyScheduleGrounding(
+  schedule: WeekSchedule,
+  markdown: string
+): { schedule: WeekSchedule; report: GroundingReport } {
+  const source = normalizeForMatch(markdown);
+  const sessions: GroundingReport["sessions"] = [];
+
+  const days = schedule.days.map((day) => ({
+    ...day,
+    trainingSessions: day.trainingSessions.map((session) => {
+      const verification = verifySession(session, source);
+      sessions.push({ date: day.date, type: session.type, ...verification });
+      return { ...session, verification };
+    }),
+  }));
+
+  const flaggedCount = sessions.filter((s) => s.flagged).length;
+
+  if (flaggedCount > 0) {
+    console.warn(
+      `Grounding check flagged ${flaggedCount} session(s) in week ${schedule.week}`
+    );
+  }
+
+  return {
+    schedule: { ...schedule, days },
+    report: {
+      week: schedule.week,
+      sourceUrl: schedule.sourceUrl,
+      checkedAt: new Date().toISOString(),
+      sessions,
+      flaggedCount,
+    },
+  };
+}
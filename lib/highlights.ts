@@ -0,0 +1,151 @@
+import { foldText } from "./text";
+import { parseDurationMinutes } from "./durations";
+import type { TrainingSession } from "./types";
+
+/**
+ * Highlight Rules
+ * Declarative rules that turn session properties into badges ("Skakanka!",
+ * "Bieganie", "Długi"...). Evaluated wherever sessions are rendered; each
+ * user can switch individual rules off (see components/highlight-badges.tsx).
+ */
+
+export type HighlightColor = "orange" | "sky" | "violet" | "rose" | "emerald";
+
+export type HighlightIcon =
+  | "zap"
+  | "footprints"
+  | "target"
+  | "timer"
+  | "sparkles";
+
+/**
+ * Rule condition
+ * Every field that is set has to match; list fields match if any entry does.
+ */
+export interface HighlightCondition {
+  exercises?: string[]; // Exercise dictionary IDs (lib/exercises.ts)
+  equipment?: string[]; // Equipment tags
+  families?: string[]; // Canonical type families (lib/training-types.ts)
+  types?: string[]; // Substrings of the raw training type
+  methods?: string[]; // Substrings of the training method
+  minDuration?: number; // Main part longer than this many minutes
+  newExercise?: boolean; // Includes an exercise never seen before
+}
+
+export interface HighlightRule {
+  id: string; // Stable identifier, used to store user preferences
+  label: string; // Badge text
+  description: string; // Shown in the rule settings
+  color: HighlightColor;
+  icon: HighlightIcon;
+  when: HighlightCondition;
+}
+
+export const HIGHLIGHT_RULES: HighlightRule[] = [
+  {
+    id: "jump-rope",
+    label: "Skakanka!",
+    description: "Ćwiczenia ze skakanką",
+    color: "orange",
+    icon: "zap",
+    when: { equipment: ["jump-rope"] },
+  },
+  {
+    id: "running",
+    label: "Bieganie",
+    description: "Trening z bieganiem",
+    color: "sky",
+    icon: "footprints",
+    when: { exercises: ["run"] },
+  },
+  {
+    id: "wall-balls",
+    label: "Wall balls",
+    description: "Trening z wall ballami",
+    color: "violet",
+    icon: "target",
+    when: { exercises: ["wall-ball"] },
+  },
+  {
+    id: "long",
+    label: "Długi",
+    description: "Część główna dłuższa niż 30 minut",
+    color: "rose",
+    icon: "timer",
+    when: { minDuration: 30 },
+  },
+  {
+    id: "new-exercise",
+    label: "Nowość",
+    description: "Ćwiczenie, którego wcześniej nie było w planie",
+    color: "emerald",
+    icon: "sparkles",
+    when: { newExercise: true },
+  },
+];
+
+function includesAny(value: string, needles: string[]): boolean {
+  const folded = foldText(value);
+  return needles.some((needle) => folded.includes(foldText(needle)));
+}
+
+/**
+ * Check whether a session satisfies a rule condition
+ * @param session - Training session (with exercise references if linked)
+ * @param when - Rule condition
+ * @returns True if every set field matches
+ */
+export function matchesCondition(
+  session: TrainingSession,
+  when: HighlightCondition
+): boolean {
+  const refs = session.exerciseRefs ?? [];
+  const exerciseIds = refs.flatMap((ref) =>
+    ref.movements.flatMap((movement) => movement.ids)
+  );
+
+  if (
+    when.exercises &&
+    !when.exercises.some((id) => exerciseIds.includes(id))
+  ) {
+    return false;
+  }
+  if (
+    when.equipment &&
+    !refs.some((ref) => ref.equipment.some((e) => when.equipment!.includes(e)))
+  ) {
+    return false;
+  }
+  if (
+    when.families &&
+    !when.families.includes(session.canonicalType?.family ?? "")
+  ) {
+    return false;
+  }
+  if (when.types && !includesAny(session.type, when.types)) return false;
+  if (when.methods && !includesAny(session.trainingMethod, when.methods)) {
+    return false;
+  }
+  if (when.minDuration !== undefined) {
+    const minutes =
+      session.durationMinutes ??
+      parseDurationMinutes(session.mainPartDuration);
+    if (minutes === null || minutes <= when.minDuration) return false;
+  }
+  if (when.newExercise && !session.newExercises?.length) return false;
+
+  return true;
+}
+
+/**
+ * Evaluate highlight rules for a session
+ * @param session - Training session
+ * @param rules - Rules to evaluate (defaults to all)
+ * @returns Matching rules, in rule order
+ */
+export function getSessionHighlights(
+  session: TrainingSession,
+  rules: HighlightRule[] = HIGHLIGHT_RULES
+): HighlightRule[] {
+  return rules.filter((rule) => matchesCondition(session, rule.when));
+}
@@ -0,0 +1,155 @@
+import type { CanonicalType, DaySchedule, TrainingSession } from "./types";
+import { addDays, TIME_ZONE } from "./dates";
+import { classifyTrainingType } from "./training-types";
+
+/**
+ * iCalendar Export
+ * Renders stored day schedules as an RFC 5545 calendar with one all-day
+ * event per training session, for subscribing from Google/Apple Calendar.
+ */
+
+export interface CalendarOptions {
+  name: string; // Calendar name shown by clients
+  types?: string[]; // Type families or classes, e.g. "hyrox", "HYROX SPEED"
+}
+
+/**
+ * Escape a text value (commas, semicolons, backslashes and newlines)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to at most 75 octets, continuing with a space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function formatDate(isoDate: string): string {
+  return isoDate.replace(/-/g, "");
+}
+
+function formatTimestamp(timestamp: string | undefined): string {
+  const date = timestamp ? new Date(timestamp) : new Date();
+  const valid = isNaN(date.getTime()) ? new Date() : date;
+  return valid.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Check whether a session matches the type filter
+ * A bare family ("HYROX", "athletic") matches all of its classes; a more
+ * specific filter ("HYROX SPEED", "speed-beginners") matches that class.
+ * @param type - Canonical type of the session
+ * @param filters - Classified filter values (empty for no filter)
+ */
+function matchesTypes(type: CanonicalType, filters: CanonicalType[]): boolean {
+  if (filters.length === 0) return true;
+  return filters.some((filter) =>
+    filter.id === filter.family
+      ? type.family === filter.family
+      : type.id === filter.id
+  );
+}
+
+/**
+ * Build the event lines for one training session
+ * @param uid - Stable event ID: date plus canonical type, so events keep
+ *   their identity when sessions are reordered or removed
+ */
+function buildEvent(
+  day: DaySchedule & { isoDate: string },
+  session: TrainingSession,
+  uid: string
+): string[] {
+  const description = [
+    `Ćwiczenia: ${session.exercises.join(", ")}`,
+    `Metoda treningowa: ${session.trainingMethod}`,
+    `Czas pracy w części głównej: ${session.mainPartDuration}`,
+  ].join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${uid}@hardyplan`,
+    `DTSTAMP:${formatTimestamp(day.overriddenAt ?? day.scrapedAt)}`,
+    `DTSTART;VALUE=DATE:${formatDate(day.isoDate)}`,
+    `DTEND;VALUE=DATE:${formatDate(addDays(day.isoDate, 1))}`,
+    `SUMMARY:${escapeText(session.type)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(day.sourceUrl ? [`URL:${day.sourceUrl}`] : []),
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Render day schedules as an iCalendar document
+ * @param days - Day schedules (days without an ISO date are skipped)
+ * @param options - Calendar name and optional training type filter
+ * @returns iCalendar text with CRLF line endings
+ */
+export function buildCalendar(
+  days: DaySchedule[],
+  options: CalendarOptions
+): string {
+  const filters = (options.types ?? []).map(classifyTrainingType);
+
+  const events = days
+    .filter((day): day is DaySchedule & { isoDate: string } => !!day.isoDate)
+    .sort((a, b) => a.isoDate.localeCompare(b.isoDate))
+    .flatMap((day) => {
+      const seen: Record<string, number> = {};
+
+      return day.trainingSessions.flatMap((session) => {
+        const type =
+          session.canonicalType ?? classifyTrainingType(session.type);
+        // Numbered from the second session of the same type on a day
+        const count = (seen[type.id] = (seen[type.id] ?? 0) + 1);
+        const uid = `${day.isoDate}-${type.id}${count > 1 ? `-${count}` : ""}`;
+
+        return matchesTypes(type, filters)
+          ? buildEvent(day, session, uid)
+          : [];
+      });
+    });
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//hardyplan//Plan treningowy//PL",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${TIME_ZONE}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+    "X-PUBLISHED-TTL:PT6H",
+    ...events,
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
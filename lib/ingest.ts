@@ -0,0 +1,278 @@
+import { parseSchedule } from "./llm-parser";
+import { verifyScheduleGrounding } from "./grounding";
+import { scrapeBlogPost } from "./scraper";
+import { enrichWeekSchedule } from "./enrich";
+import {
+  storeWeekSchedule,
+  storeGroundingReport,
+  getChangedDays,
+  getSourceRecord,
+  storeSourceRecord,
+  archiveSourceVersion,
+  getSourceVersion,
+  getStoredWeek,
+  recordUnknownTypes,
+  recordUnmatchedExercises,
+  recordUnparsedDurations,
+} from "./kv";
+import type {
+  BlogPost,
+  IngestResult,
+  ScrapeStage,
+  SourceVersion,
+  WeekSchedule,
+} from "./types";
+
+/**
+ * Ingest scraped blog posts into storage
+ *
+ * Process:
+ * 1. Archive each post as a source version; skip posts unchanged since
+ *    last ingest
+ * 2. Parse markdown (rule-based parser, LLM fallback), classify training
+ *    types, link exercises to the dictionary, parse training methods and
+ *    durations (unknown types, unmatched exercises and unparsed durations
+ *    are queued for review)
+ * 3. Verify parsed values against the source markdown (flag failures)
+ * 4. Store in KV (re-stores weeks whose post changed)
+ *
+ * Safe to call repeatedly with the same posts (idempotent).
+ * @param posts - Scraped blog posts
+ * @param options - Pass force to re-parse posts even if unchanged, and
+ *   expectedWeek to refuse storing posts that parse to a different week
+ * @returns Stored/skipped weeks, per-URL outcomes, stage timings and errors
+ */
+export async function ingestPosts(
+  posts: BlogPost[],
+  options: { force?: boolean; expectedWeek?: string } = {}
+): Promise<IngestResult> {
+  const result: IngestResult = {
+    stored: [],
+    skipped: [],
+    changedDays: [],
+    flaggedSessions: [],
+    unknownTypes: [],
+    unmatchedExercises: [],
+    unparsedDurations: [],
+    errors: [],
+    totalDaysStored: 0,
+    outcomes: [],
+    timings: {},
+  };
+
+  // Accumulate elapsed time per stage
+  const timed = async <T>(stage: ScrapeStage, fn: () => Promise<T>) => {
+    const start = Date.now();
+    try {
+      return await fn();
+    } finally {
+      result.timings[stage] = (result.timings[stage] ?? 0) + Date.now() - start;
+    }
+  };
+
+  // Step 1: Archive raw sources and skip posts unchanged since last ingest
+  const changedPosts: Array<{ post: BlogPost; version: SourceVersion }> = [];
+
+  for (const post of posts) {
+    const { version, record } = await timed("archive", async () => ({
+      version: await archiveSourceVersion(post),
+      record: await getSourceRecord(post.url),
+    }));
+
+    if (record?.hash === version.hash && !options.force) {
+      console.log(`Post ${post.url} unchanged, skipping week ${record.week}`);
+      result.skipped.push(record.week);
+      result.outcomes.push({
+        url: post.url,
+        status: "unchanged",
+        week: record.week,
+        versionId: version.id,
+      });
+      continue;
+    }
+
+    changedPosts.push({ post, version });
+  }
+
+  for (const { post, version } of changedPosts) {
+    // Step 2: Parse (rule-based first, LLM fallback)
+    let parsed: WeekSchedule;
+    try {
+      parsed = await timed("parse", () =>
+        parseSchedule(post.markdown, post.url, post.publishedAt)
+      );
+    } catch (error) {
+      const errorMessage = `Failed to parse ${post.url}: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+      console.error(errorMessage);
+      result.errors.push(errorMessage);
+      result.outcomes.push({
+        url: post.url,
+        status: "parse_failed",
+        versionId: version.id,
+        error: errorMessage,
+      });
+      continue;
+    }
+
+    // Re-parses must not overwrite another week (e.g. from a rolling URL)
+    if (options.expectedWeek && parsed.week !== options.expectedWeek) {
+      const errorMessage = `Post ${post.url} contains week ${parsed.week}, expected ${options.expectedWeek}`;
+      console.error(errorMessage);
+      result.errors.push(errorMessage);
+      result.outcomes.push({
+        url: post.url,
+        status: "parse_failed",
+        week: parsed.week,
+        versionId: version.id,
+        error: errorMessage,
+      });
+      continue;
+    }
+
+    // Derive training type, exercise links, parsed method and duration
+    const {
+      schedule: enriched,
+      unknownTypes,
+      unmatchedExercises,
+      unparsedDurations,
+    } = enrichWeekSchedule(parsed);
+
+    // Step 3: Verify against source
+    const { schedule, report } = await timed("verify", async () =>
+      verifyScheduleGrounding(
+        { ...enriched, sourceVersion: version.id },
+        version.markdown
+      )
+    );
+
+    // Step 4: Store in KV as individual days
+    try {
+      const { daysStored, daysChanged } = await timed("store", async () => {
+        // Diff against stored days before overwriting them
+        const daysChanged = await getChangedDays(schedule);
+
+        // Store schedule (splits into individual days)
+        const daysStored = await storeWeekSchedule(schedule);
+        await storeGroundingReport(report);
+        if (daysStored > 0) {
+          await recordUnknownTypes(unknownTypes, schedule.week);
+          await recordUnmatchedExercises(unmatchedExercises, schedule.week);
+          await recordUnparsedDurations(unparsedDurations, schedule.week);
+        }
+        return { daysStored, daysChanged };
+      });
+
+      const flagged = report.sessions.filter((s) => s.flagged);
+      flagged.forEach((s) =>
+        result.flaggedSessions.push({
+          week: schedule.week,
+          date: s.date,
+          type: s.type,
+        })
+      );
+
+      if (daysStored > 0) {
+        console.log(
+          `Successfully stored ${daysStored} days from week ${schedule.week} (${daysChanged.length} changed)`
+        );
+        // Record the hash only once stored, so failures are retried. A
+        // re-parsed older version must not replace the record of the
+        // week the URL holds now.
+        const record = options.expectedWeek
+          ? await getSourceRecord(post.url)
+          : null;
+        if (!record || record.week === schedule.week) {
+          await storeSourceRecord({
+            url: schedule.sourceUrl,
+            hash: version.hash,
+            week: schedule.week,
+            versionId: version.id,
+            ingestedAt: new Date().toISOString(),
+          });
+        }
+        result.stored.push(schedule.week);
+        result.changedDays.push(...daysChanged);
+        result.unknownTypes.push(
+          ...unknownTypes.filter((t) => !result.unknownTypes.includes(t))
+        );
+        result.unmatchedExercises.push(
+          ...unmatchedExercises.filter(
+            (name) => !result.unmatchedExercises.includes(name)
+          )
+        );
+        result.unparsedDurations.push(
+          ...unparsedDurations.filter(
+            (duration) => !result.unparsedDurations.includes(duration)
+          )
+        );
+        result.totalDaysStored += daysStored;
+        result.outcomes.push({
+          url: post.url,
+          status: "stored",
+          week: schedule.week,
+          versionId: version.id,
+          changedDays: daysChanged,
+          flaggedSessions: flagged.length,
+        });
+      } else {
+        const errorMessage = `Failed to store schedule for week ${schedule.week}`;
+        result.errors.push(errorMessage);
+        result.outcomes.push({
+          url: post.url,
+          status: "store_failed",
+          week: schedule.week,
+          versionId: version.id,
+          error: errorMessage,
+        });
+      }
+    } catch (error) {
+      const errorMessage = `Error processing schedule ${schedule.week}: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+      console.error(errorMessage);
+      result.errors.push(errorMessage);
+      result.outcomes.push({
+        url: post.url,
+        status: "store_failed",
+        week: schedule.week,
+        versionId: version.id,
+        error: errorMessage,
+      });
+    }
+  }
+
+  console.log(
+    `Ingested ${posts.length} posts: ${result.stored.length} stored, ${result.skipped.length} unchanged`
+  );
+
+  return result;
+}
+
+/**
+ * Force re-parse of a stored week from the archived source it was stored from
+ * Fetches the post again if that version isn't archived; the post is only
+ * stored if it still contains the same week (rolling URLs move on).
+ * @param week - Week identifier (DD/MM/YYYY-DD/MM/YYYY)
+ * @returns Ingest result, or null if the week isn't stored
+ */
+export async function reparseWeek(week: string): Promise<IngestResult | null> {
+  const storedWeek = await getStoredWeek(week);
+  if (!storedWeek) return null;
+
+  const version = storedWeek.sourceVersion
+    ? await getSourceVersion(storedWeek.sourceVersion)
+    : null;
+
+  const post: BlogPost = version
+    ? {
+        url: version.url,
+        markdown: version.markdown,
+        publishedAt: version.publishedAt,
+      }
+    : await scrapeBlogPost(storedWeek.sourceUrl);
+
+  console.log(`Re-parsing week ${week} from ${post.url}`);
+  return ingestPosts([post], { force: true, expectedWeek: week });
+}
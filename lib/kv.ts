@@ -1,8 +1,53 @@
-import { Redis } from "@upstash/redis";
-import type { WeekSchedule, DaySchedule } from "./types";
+import { createHash } from "crypto";
+import { getStorage } from "./storage";
+import { applyDayOverride } from "./overrides";
+import { classifyTrainingType } from "./training-types";
+import {
+  getSessionExerciseIds,
+  linkExercise,
+  withNewExercises,
+} from "./exercises";
+import { enrichDaySchedule } from "./enrich";
+import { parseDurationMinutes, summarizeWeek } from "./durations";
+import {
+  findCandidateDates,
+  matchesSearchQuery,
+  parseSearchQuery,
+  SearchTerms,
+  selectQueryTerms,
+  toSearchDocuments,
+  toSearchResult,
+  toSearchTerms,
+} from "./search";
+import {
+  dayMonthToISO,
+  daysBetween,
+  getTodayISO,
+  getWeekISODates,
+  isoToDate,
+  parseWeekId,
+  resolveDayInWeek,
+} from "./dates";
+import type {
+  WeekSchedule,
+  DaySchedule,
+  GroundingReport,
+  SourceRecord,
+  SourceVersion,
+  BackfillState,
+  BlogPost,
+  ScrapeRun,
+  StoredWeek,
+  WeekSummary,
+  DayOverride,
+  OverrideAuditEntry,
+  ReviewQueueEntry,
+  SearchDocument,
+  SearchResult,
+} from "./types";
 
-// Initialize Redis from environment
-const redis = Redis.fromEnv();
+const MAX_SCRAPE_RUNS = 500;
+const MAX_OVERRIDE_AUDIT = 100;
 
 /**
  * Storage Keys Structure:
@@ -10,37 +55,82 @@ const redis = Redis.fromEnv();
  * - schedules:days:list → Sorted set of all day dates (with timestamps)
  * - schedules:latest_update → Timestamp of last update
  * - schedules:week:{week} → Original week metadata (for reference)
- * - logs:scraping:{date} → Daily scraping logs
+ * - schedules:verification:{week} → Grounding report for the parsed week
+ * - schedules:override:{YYYY-MM-DD} → Manual corrections applied on read
+ * - schedules:override-audit:{YYYY-MM-DD} → Capped list of override changes (newest first)
+ * - schedules:source:{url} → Content hash of the last ingested post version
+ * - sources:version:{id} → Archived (immutable) markdown of a post version
+ * - sources:versions:{url} → Sorted set of version IDs per post (by fetch time)
+ * - backfill:state → Progress of the historical archive backfill
+ * - taxonomy:unknown-types → Training types with no known family, for review
+ * - exercises:first-seen → Earliest date (YYYY-MM-DD) each dictionary exercise appeared
+ * - exercises:unmatched → Movement names missing from the exercise dictionary, for review
+ * - durations:unparsed → Main part durations with no recognizable time, for review
+ * - search:vocabulary → Sorted set of indexed search terms (folded words and "#" + exercise ID)
+ * - search:term:{term} → Sorted set of ISO dates whose sessions contain the term
+ * - search:day:{YYYY-MM-DD} → Search documents of a day's effective sessions
+ * - logs:scrape-runs → Capped list of scrape run IDs (newest first)
+ * - logs:scrape-run:{runId} → Scrape run record (deleted when its ID is trimmed from the list)
  */
 
 /**
- * Convert DD.MM date to YYYY-MM-DD format using current year
- * Handles year boundaries (e.g., if current month is Jan and date is Dec, use previous year)
- * @param date - Date in DD.MM format
- * @returns Date in YYYY-MM-DD format
+ * Get the start date of a week identifier
+ * @param week - Week identifier (DD/MM/YYYY-DD/MM/YYYY)
+ * @returns Start date, or current date if the week can't be parsed
  */
-function convertToISODate(date: string): string {
-  const [day, month] = date.split(".").map(Number);
-  const now = new Date();
-  let year = now.getFullYear();
+function getWeekReferenceDate(week: string): Date {
+  const bounds = parseWeekId(week);
+  return bounds ? isoToDate(bounds.start) : new Date();
+}
 
-  // Handle year boundary: if we're in January and the date is December, use previous year
-  if (now.getMonth() === 0 && month === 12) {
-    year -= 1;
+/**
+ * Get the earliest date each dictionary exercise appeared
+ * Readers of many days load it once and pass it to getDayScheduleByISO.
+ * @returns Map of exercise ID to date (YYYY-MM-DD)
+ */
+export async function getExerciseFirstSeen(): Promise<
+  Record<string, string>
+> {
+  try {
+    return (
+      (await getStorage().get<Record<string, string>>(
+        "exercises:first-seen"
+      )) ?? {}
+    );
+  } catch (error) {
+    console.error("Error getting exercise first-seen dates:", error);
+    return {};
   }
-  // Handle year boundary: if we're in December and the date is January, use next year
-  if (now.getMonth() === 11 && month === 1) {
-    year += 1;
+}
+
+/**
+ * Record the earliest date each dictionary exercise appeared
+ * Only moves dates back, so backfilling older weeks shifts an exercise's
+ * debut to the older day. "New" flags are derived from these dates on read.
+ * @param days - Days to store, with their resolved dates
+ * @returns The updated first-seen map
+ */
+async function recordFirstSeen(
+  days: Array<{ day: DaySchedule; isoDate: string }>
+): Promise<Record<string, string>> {
+  const storage = getStorage();
+  const firstSeen =
+    (await storage.get<Record<string, string>>("exercises:first-seen")) ?? {};
+
+  for (const { day, isoDate } of days) {
+    for (const id of getSessionExerciseIds(day.trainingSessions)) {
+      if (!firstSeen[id] || isoDate < firstSeen[id]) firstSeen[id] = isoDate;
+    }
   }
 
-  const isoDate = `${year}-${month.toString().padStart(2, "0")}-${day
-    .toString()
-    .padStart(2, "0")}`;
-  return isoDate;
+  await storage.set("exercises:first-seen", firstSeen);
+  return firstSeen;
 }
 
 /**
  * Store a week schedule as individual days in KV
+ * Each day's year is taken from the week range; nothing is stored if a day
+ * falls outside it.
  * @param schedule - The week schedule to store
  * @returns Number of days stored successfully
  */
@@ -48,43 +138,65 @@ export async function storeWeekSchedule(
   schedule: WeekSchedule
 ): Promise<number> {
   try {
+    const storage = getStorage();
     let storedCount = 0;
     const now = Date.now();
 
+    // Resolve every day's year from the week range before storing anything
+    const isoDates = schedule.days.map((day) =>
+      resolveDayInWeek(day.date, schedule.week)
+    );
+    if (isoDates.some((isoDate) => isoDate === null)) {
+      console.error(
+        `Refusing to store week ${schedule.week}: days outside the week range`
+      );
+      return 0;
+    }
+
+    const firstSeen = await recordFirstSeen(
+      schedule.days.map((day, index) => ({ day, isoDate: isoDates[index]! }))
+    );
+
     // Store each day individually
-    for (const day of schedule.days) {
-      const isoDate = convertToISODate(day.date);
+    for (const [index, day] of schedule.days.entries()) {
+      const isoDate = isoDates[index]!;
       const key = `schedules:day:${isoDate}`;
 
       // Store day schedule with metadata
-      await redis.set(key, {
+      await storage.set(key, {
         ...day,
         isoDate,
         sourceUrl: schedule.sourceUrl,
+        sourceVersion: schedule.sourceVersion,
         scrapedAt: schedule.scrapedAt,
       });
 
       // Add to sorted set with timestamp as score
-      await redis.zadd("schedules:days:list", {
+      await storage.zadd("schedules:days:list", {
         score: now,
         member: isoDate,
       });
 
+      await updateSearchIndex(isoDate, firstSeen);
+
       storedCount++;
       console.log(`Stored day schedule: ${isoDate} (${day.dayName})`);
     }
 
-    // Store week metadata for reference
+    // Store week metadata for reference (also feeds /api/feed.xml)
     const weekKey = `schedules:week:${schedule.week}`;
-    await redis.set(weekKey, {
+    const previous = await storage.get<StoredWeek>(weekKey);
+    await storage.set<StoredWeek>(weekKey, {
       week: schedule.week,
       sourceUrl: schedule.sourceUrl,
+      sourceVersion: schedule.sourceVersion,
       scrapedAt: schedule.scrapedAt,
+      firstStoredAt: previous?.firstStoredAt ?? new Date(now).toISOString(),
       dayCount: schedule.days.length,
     });
 
     // Update latest update timestamp
-    await redis.set("schedules:latest_update", now);
+    await storage.set("schedules:latest_update", now);
 
     console.log(
       `Successfully stored ${storedCount} days from week ${schedule.week}`
@@ -104,8 +216,7 @@ export async function storeWeekSchedule(
 export async function dayScheduleExists(isoDate: string): Promise<boolean> {
   try {
     const key = `schedules:day:${isoDate}`;
-    const exists = await redis.exists(key);
-    return exists === 1;
+    return await getStorage().exists(key);
   } catch (error) {
     console.error("Error checking if day schedule exists:", error);
     return false;
@@ -120,8 +231,7 @@ export async function dayScheduleExists(isoDate: string): Promise<boolean> {
 export async function weekScheduleExists(week: string): Promise<boolean> {
   try {
     const weekKey = `schedules:week:${week}`;
-    const exists = await redis.exists(weekKey);
-    return exists === 1;
+    return await getStorage().exists(weekKey);
   } catch (error) {
     console.error("Error checking if week schedule exists:", error);
     return false;
@@ -135,7 +245,7 @@ export async function weekScheduleExists(week: string): Promise<boolean> {
 export async function getAllDaySchedules(): Promise<DaySchedule[]> {
   try {
     // Get all day dates from sorted set (newest first)
-    const dates = await redis.zrange("schedules:days:list", 0, -1, {
+    const dates = await getStorage().zrange("schedules:days:list", {
       rev: true,
     });
 
@@ -144,8 +254,9 @@ export async function getAllDaySchedules(): Promise<DaySchedule[]> {
     }
 
     // Fetch all day schedules
+    const firstSeen = await getExerciseFirstSeen();
     const schedules = await Promise.all(
-      dates.map((date) => getDayScheduleByISO(date as string))
+      dates.map((date) => getDayScheduleByISO(date, firstSeen))
     );
 
     // Filter out nulls
@@ -158,24 +269,204 @@ export async function getAllDaySchedules(): Promise<DaySchedule[]> {
   }
 }
 
+/**
+ * Query day schedules by date range and training type
+ * @param query - Inclusive YYYY-MM-DD bounds, type substring and page window
+ * @returns Page of day schedules (oldest first) and total matching count
+ */
+export async function queryDaySchedules(query: {
+  from?: string;
+  to?: string;
+  type?: string;
+  offset: number;
+  limit: number;
+}): Promise<{ days: DaySchedule[]; total: number }> {
+  try {
+    const dates = (await getStorage().zrange("schedules:days:list"))
+      .filter(
+        (date) =>
+          (!query.from || date >= query.from) && (!query.to || date <= query.to)
+      )
+      .sort();
+
+    const type = query.type?.toLowerCase();
+    const firstSeen = await getExerciseFirstSeen();
+
+    if (!type) {
+      // Without a type filter only the requested page has to be loaded
+      const page = dates.slice(query.offset, query.offset + query.limit);
+      const days = await Promise.all(
+        page.map((date) => getDayScheduleByISO(date, firstSeen))
+      );
+      return {
+        days: days.filter((day): day is DaySchedule => day !== null),
+        total: dates.length,
+      };
+    }
+
+    // Keep only matching sessions, and days that have any
+    const days = (
+      await Promise.all(
+        dates.map((date) => getDayScheduleByISO(date, firstSeen))
+      )
+    )
+      .filter((day): day is DaySchedule => day !== null)
+      .map((day) => ({
+        ...day,
+        trainingSessions: day.trainingSessions.filter((session) =>
+          session.type.toLowerCase().includes(type)
+        ),
+      }))
+      .filter((day) => day.trainingSessions.length > 0);
+
+    return {
+      days: days.slice(query.offset, query.offset + query.limit),
+      total: days.length,
+    };
+  } catch (error) {
+    console.error("Error querying day schedules:", error);
+    return { days: [], total: 0 };
+  }
+}
+
 /**
  * Get day schedule by ISO date
+ * Manual overrides are applied on top of the scraped data. Derived fields
+ * are recomputed on read.
  * @param isoDate - Date in YYYY-MM-DD format
+ * @param firstSeen - First-seen map already loaded by the caller, if any
  * @returns Day schedule or null
  */
 export async function getDayScheduleByISO(
+  isoDate: string,
+  firstSeen?: Record<string, string>
+): Promise<DaySchedule | null> {
+  try {
+    const [day, override, exerciseDebuts] = await Promise.all([
+      getScrapedDaySchedule(isoDate),
+      getDayOverride(isoDate),
+      firstSeen ?? getExerciseFirstSeen(),
+    ]);
+    return day
+      ? withNewExercises(
+          enrichDaySchedule(applyDayOverride(day, override)),
+          exerciseDebuts
+        )
+      : null;
+  } catch (error) {
+    console.error("Error getting day schedule by ISO:", error);
+    return null;
+  }
+}
+
+/**
+ * Get day schedule by ISO date as scraped, without manual overrides
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @returns Day schedule or null
+ */
+export async function getScrapedDaySchedule(
   isoDate: string
 ): Promise<DaySchedule | null> {
   try {
     const key = `schedules:day:${isoDate}`;
-    const data = await redis.get<DaySchedule>(key);
+    const data = await getStorage().get<DaySchedule>(key);
     return data;
   } catch (error) {
-    console.error("Error getting day schedule by ISO:", error);
+    console.error("Error getting scraped day schedule:", error);
+    return null;
+  }
+}
+
+/**
+ * Get manual override of a day schedule
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @returns Day override or null
+ */
+export async function getDayOverride(
+  isoDate: string
+): Promise<DayOverride | null> {
+  try {
+    return await getStorage().get<DayOverride>(
+      `schedules:override:${isoDate}`
+    );
+  } catch (error) {
+    console.error("Error getting day override:", error);
     return null;
   }
 }
 
+/**
+ * Store manual override of a day schedule and record it in the audit trail
+ * @param override - Day override
+ * @param entry - Audit entry describing the change
+ */
+export async function storeDayOverride(
+  override: DayOverride,
+  entry: OverrideAuditEntry
+): Promise<void> {
+  const storage = getStorage();
+
+  await storage.set(`schedules:override:${override.isoDate}`, override);
+  await appendOverrideAudit(override.isoDate, entry);
+  await updateSearchIndex(override.isoDate);
+  await storage.set("schedules:latest_update", Date.now());
+
+  console.log(`Stored override for ${override.isoDate} by ${entry.author}`);
+}
+
+/**
+ * Remove manual override of a day schedule, restoring the scraped data
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @param entry - Audit entry describing the change
+ */
+export async function deleteDayOverride(
+  isoDate: string,
+  entry: OverrideAuditEntry
+): Promise<void> {
+  const storage = getStorage();
+
+  await storage.del(`schedules:override:${isoDate}`);
+  await appendOverrideAudit(isoDate, entry);
+  await updateSearchIndex(isoDate);
+  await storage.set("schedules:latest_update", Date.now());
+
+  console.log(`Removed override for ${isoDate} by ${entry.author}`);
+}
+
+/**
+ * Append an entry to a day's override audit trail (capped)
+ */
+async function appendOverrideAudit(
+  isoDate: string,
+  entry: OverrideAuditEntry
+): Promise<void> {
+  const storage = getStorage();
+  const key = `schedules:override-audit:${isoDate}`;
+
+  await storage.lpush(key, entry);
+  await storage.ltrim(key, 0, MAX_OVERRIDE_AUDIT - 1);
+}
+
+/**
+ * Get override audit trail of a day
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @returns Audit entries, newest first
+ */
+export async function getOverrideAudit(
+  isoDate: string
+): Promise<OverrideAuditEntry[]> {
+  try {
+    return await getStorage().lrange<OverrideAuditEntry>(
+      `schedules:override-audit:${isoDate}`,
+      0,
+      -1
+    );
+  } catch (error) {
+    console.error("Error getting override audit:", error);
+    return [];
+  }
+}
+
 /**
  * Find a day schedule by date
  * @param date - Date in DD.MM format
@@ -186,7 +477,7 @@ export async function getDaySchedule(
 ): Promise<DaySchedule | null> {
   try {
     // Convert DD.MM to YYYY-MM-DD
-    const isoDate = convertToISODate(date);
+    const isoDate = dayMonthToISO(date);
     return getDayScheduleByISO(isoDate);
   } catch (error) {
     console.error("Error getting day schedule:", error);
@@ -200,8 +491,7 @@ export async function getDaySchedule(
  */
 export async function getTodaySchedule(): Promise<DaySchedule | null> {
   try {
-    const today = new Date();
-    const isoDate = today.toISOString().split("T")[0]; // YYYY-MM-DD
+    const isoDate = getTodayISO(); // YYYY-MM-DD in Warsaw
     return getDayScheduleByISO(isoDate);
   } catch (error) {
     console.error("Error getting today schedule:", error);
@@ -210,20 +500,771 @@ export async function getTodaySchedule(): Promise<DaySchedule | null> {
 }
 
 /**
- * Log scraping operation
- * @param result - Scraping result object
+ * Delete a single day schedule
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @returns Boolean indicating if the day existed
+ */
+export async function deleteDaySchedule(isoDate: string): Promise<boolean> {
+  try {
+    const storage = getStorage();
+    const key = `schedules:day:${isoDate}`;
+    const existed = await storage.exists(key);
+
+    await storage.del(key);
+    await storage.zrem("schedules:days:list", isoDate);
+    await updateSearchIndex(isoDate);
+    await storage.set("schedules:latest_update", Date.now());
+
+    console.log(`Deleted day schedule: ${isoDate}`);
+    return existed;
+  } catch (error) {
+    console.error("Error deleting day schedule:", error);
+    return false;
+  }
+}
+
+/**
+ * Get week metadata
+ * @param week - Week identifier (DD/MM/YYYY-DD/MM/YYYY)
+ * @returns Week metadata or null
+ */
+export async function getStoredWeek(week: string): Promise<StoredWeek | null> {
+  try {
+    return await getStorage().get<StoredWeek>(`schedules:week:${week}`);
+  } catch (error) {
+    console.error("Error getting stored week:", error);
+    return null;
+  }
+}
+
+/**
+ * Get metadata of all stored weeks
+ * @returns Week metadata sorted by start date (most recent first)
+ */
+export async function getStoredWeeks(): Promise<StoredWeek[]> {
+  try {
+    const keys = await getStorage().keys("schedules:week:*");
+    const weeks = await Promise.all(
+      keys.map((key) => getStoredWeek(key.replace("schedules:week:", "")))
+    );
+
+    return weeks
+      .filter((week): week is StoredWeek => week !== null)
+      .sort(
+        (a, b) =>
+          getWeekReferenceDate(b.week).getTime() -
+          getWeekReferenceDate(a.week).getTime()
+      );
+  } catch (error) {
+    console.error("Error getting stored weeks:", error);
+    return [];
+  }
+}
+
+/**
+ * Reassemble a week schedule from week metadata and stored days
+ * @param week - Week identifier (DD/MM/YYYY-DD/MM/YYYY)
+ * @param firstSeen - First-seen map already loaded by the caller, if any
+ * @returns Week schedule (days sorted by date) or null if the week isn't stored
+ */
+export async function getWeekSchedule(
+  week: string,
+  firstSeen?: Record<string, string>
+): Promise<WeekSchedule | null> {
+  try {
+    const [storedWeek, exerciseDebuts] = await Promise.all([
+      getStoredWeek(week),
+      firstSeen ?? getExerciseFirstSeen(),
+    ]);
+    if (!storedWeek) return null;
+
+    const days = (
+      await Promise.all(
+        getWeekISODates(week).map((isoDate) =>
+          getDayScheduleByISO(isoDate, exerciseDebuts)
+        )
+      )
+    ).filter((day): day is DaySchedule => day !== null);
+
+    return {
+      week: storedWeek.week,
+      sourceUrl: storedWeek.sourceUrl,
+      sourceVersion: storedWeek.sourceVersion,
+      scrapedAt: storedWeek.scrapedAt,
+      days,
+      durationSummary: summarizeWeek(days),
+    };
+  } catch (error) {
+    console.error("Error getting week schedule:", error);
+    return null;
+  }
+}
+
+/**
+ * Get summaries of all stored weeks
+ * Built from week metadata only; days are loaded per week with
+ * getWeekSchedule when a week is opened.
+ * @returns Week summaries sorted by start date (most recent first)
+ */
+export async function getWeekSummaries(): Promise<WeekSummary[]> {
+  try {
+    const weeks = await getStoredWeeks();
+
+    return weeks.flatMap((week) => {
+      const bounds = parseWeekId(week.week);
+      return bounds
+        ? [
+            {
+              week: week.week,
+              start: bounds.start,
+              sourceUrl: week.sourceUrl,
+              scrapedAt: week.scrapedAt,
+              dayCount: week.dayCount,
+            },
+          ]
+        : [];
+    });
+  } catch (error) {
+    console.error("Error getting week summaries:", error);
+    return [];
+  }
+}
+
+/**
+ * Find a stored week by its start date
+ * Week identifiers contain slashes, so URLs address weeks by start date.
+ * @param start - First day of the week (YYYY-MM-DD)
+ * @returns Week identifier (DD/MM/YYYY-DD/MM/YYYY) or null if none is stored
+ */
+export async function findWeekByStart(start: string): Promise<string | null> {
+  try {
+    const weeks = (await getStorage().keys("schedules:week:*")).map((key) =>
+      key.replace("schedules:week:", "")
+    );
+    return weeks.find((week) => parseWeekId(week)?.start === start) ?? null;
+  } catch (error) {
+    console.error("Error finding week by start date:", error);
+    return null;
+  }
+}
+
+/**
+ * Get timestamp of the last schedule update
+ * @returns Milliseconds since epoch, or null if never updated
+ */
+export async function getLatestUpdate(): Promise<number | null> {
+  try {
+    return await getStorage().get<number>("schedules:latest_update");
+  } catch (error) {
+    console.error("Error getting latest update:", error);
+    return null;
+  }
+}
+
+/**
+ * Compute a content hash of a blog post's markdown
+ * @param markdown - Raw markdown content
+ * @returns SHA-256 hex digest
+ */
+export function hashContent(markdown: string): string {
+  return createHash("sha256").update(markdown.trim()).digest("hex");
+}
+
+/**
+ * Get the last ingested version record for a source URL
+ * @param url - Blog post URL
+ * @returns Source record or null if the post was never ingested
+ */
+export async function getSourceRecord(
+  url: string
+): Promise<SourceRecord | null> {
+  try {
+    return await getStorage().get<SourceRecord>(`schedules:source:${url}`);
+  } catch (error) {
+    console.error("Error getting source record:", error);
+    return null;
+  }
+}
+
+/**
+ * Store the ingested version record for a source URL
+ * @param record - Source record with content hash
+ */
+export async function storeSourceRecord(record: SourceRecord): Promise<void> {
+  try {
+    await getStorage().set(`schedules:source:${record.url}`, record);
+  } catch (error) {
+    console.error("Error storing source record:", error);
+  }
+}
+
+/**
+ * Archive a fetched blog post as an immutable version
+ * A new version is only created when the content differs from the latest one
+ * @param post - Scraped blog post
+ * @returns Newly created or latest matching version
+ */
+export async function archiveSourceVersion(
+  post: BlogPost
+): Promise<SourceVersion> {
+  const storage = getStorage();
+  const hash = hashContent(post.markdown);
+
+  const [latestId] = await storage.zrange(`sources:versions:${post.url}`, {
+    rev: true,
+  });
+  if (latestId) {
+    const latest = await getSourceVersion(latestId);
+    if (latest?.hash === hash) {
+      return latest;
+    }
+  }
+
+  const now = Date.now();
+  const version: SourceVersion = {
+    id: `${now}-${hash.slice(0, 8)}`,
+    url: post.url,
+    hash,
+    markdown: post.markdown,
+    fetchedAt: new Date(now).toISOString(),
+    publishedAt: post.publishedAt,
+  };
+
+  await storage.set(`sources:version:${version.id}`, version);
+  await storage.zadd(`sources:versions:${post.url}`, {
+    score: now,
+    member: version.id,
+  });
+
+  console.log(`Archived new source version ${version.id} for ${post.url}`);
+  return version;
+}
+
+/**
+ * Get an archived source version
+ * @param id - Version ID
+ * @returns Source version or null
+ */
+export async function getSourceVersion(
+  id: string
+): Promise<SourceVersion | null> {
+  try {
+    return await getStorage().get<SourceVersion>(`sources:version:${id}`);
+  } catch (error) {
+    console.error("Error getting source version:", error);
+    return null;
+  }
+}
+
+/**
+ * List archived versions of a blog post
+ * @param url - Blog post URL
+ * @returns Versions without markdown, newest first
+ */
+export async function getSourceVersions(
+  url: string
+): Promise<Array<Omit<SourceVersion, "markdown">>> {
+  try {
+    const ids = await getStorage().zrange(`sources:versions:${url}`, {
+      rev: true,
+    });
+    const versions = await Promise.all(ids.map((id) => getSourceVersion(id)));
+
+    return versions
+      .filter((version): version is SourceVersion => version !== null)
+      .map((version) => ({
+        id: version.id,
+        url: version.url,
+        hash: version.hash,
+        fetchedAt: version.fetchedAt,
+        publishedAt: version.publishedAt,
+      }));
+  } catch (error) {
+    console.error("Error listing source versions:", error);
+    return [];
+  }
+}
+
+/**
+ * Compare a week schedule against stored days
+ * @param schedule - Newly parsed week schedule
+ * @returns ISO dates of days that are new or whose sessions differ
+ */
+export async function getChangedDays(
+  schedule: WeekSchedule
+): Promise<string[]> {
+  const changed: string[] = [];
+
+  for (const day of schedule.days) {
+    const isoDate = resolveDayInWeek(day.date, schedule.week);
+    if (!isoDate) continue;
+
+    const existing = await getScrapedDaySchedule(isoDate);
+
+    if (
+      !existing ||
+      existing.dayName !== day.dayName ||
+      JSON.stringify(stripVerification(existing.trainingSessions)) !==
+        JSON.stringify(stripVerification(day.trainingSessions))
+    ) {
+      changed.push(isoDate);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Drop grounding metadata so only scraped content is compared
+ */
+function stripVerification(sessions: DaySchedule["trainingSessions"]) {
+  return sessions.map((session) => ({
+    type: session.type,
+    exercises: session.exercises,
+    trainingMethod: session.trainingMethod,
+    mainPartDuration: session.mainPartDuration,
+  }));
+}
+
+/**
+ * Store grounding report for a week
+ * @param report - Grounding report from verifyScheduleGrounding
+ */
+export async function storeGroundingReport(
+  report: GroundingReport
+): Promise<void> {
+  try {
+    const key = `schedules:verification:${report.week}`;
+    await getStorage().set(key, report);
+  } catch (error) {
+    console.error("Error storing grounding report:", error);
+  }
+}
+
+/**
+ * Get grounding report for a week
+ * @param week - Week identifier (DD/MM/YYYY-DD/MM/YYYY)
+ * @returns Grounding report or null
+ */
+export async function getGroundingReport(
+  week: string
+): Promise<GroundingReport | null> {
+  try {
+    const key = `schedules:verification:${week}`;
+    return await getStorage().get<GroundingReport>(key);
+  } catch (error) {
+    console.error("Error getting grounding report:", error);
+    return null;
+  }
+}
+
+/**
+ * Add raw values to a review queue, counting repeat occurrences
+ * @param key - Queue storage key
+ * @param values - Raw values to record
+ * @param week - Week they appeared in (DD/MM/YYYY-DD/MM/YYYY)
+ */
+async function recordReviewEntries(
+  key: string,
+  values: string[],
+  week: string
+): Promise<void> {
+  if (values.length === 0) return;
+
+  const storage = getStorage();
+  const now = new Date().toISOString();
+  const entries = (await storage.get<ReviewQueueEntry[]>(key)) ?? [];
+
+  for (const value of values) {
+    const existing = entries.find((entry) => entry.value === value);
+    if (existing) {
+      existing.occurrences += 1;
+      existing.lastSeen = now;
+      existing.lastWeek = week;
+    } else {
+      entries.push({
+        value,
+        occurrences: 1,
+        firstSeen: now,
+        lastSeen: now,
+        lastWeek: week,
+      });
+    }
+  }
+
+  await storage.set(key, entries);
+}
+
+/**
+ * Get the entries of a review queue that are still unresolved
+ * @param key - Queue storage key
+ * @param isResolved - Whether a value is now recognized
+ * @returns Unresolved entries, most recently seen first
+ */
+async function getReviewEntries(
+  key: string,
+  isResolved: (value: string) => boolean
+): Promise<ReviewQueueEntry[]> {
+  const entries = (await getStorage().get<ReviewQueueEntry[]>(key)) ?? [];
+
+  return entries
+    .filter((entry) => !isResolved(entry.value))
+    .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+}
+
+/**
+ * Record training types that matched no known family
+ * @param types - Raw training types
+ * @param week - Week they appeared in (DD/MM/YYYY-DD/MM/YYYY)
+ */
+export async function recordUnknownTypes(
+  types: string[],
+  week: string
+): Promise<void> {
+  try {
+    await recordReviewEntries("taxonomy:unknown-types", types, week);
+  } catch (error) {
+    console.error("Error recording unknown training types:", error);
+  }
+}
+
+/**
+ * Get training types waiting for review
+ * Types that the taxonomy has since learned to classify are left out.
+ * @returns Unknown training types, most recently seen first
+ */
+export async function getUnknownTypes(): Promise<ReviewQueueEntry[]> {
+  try {
+    return await getReviewEntries(
+      "taxonomy:unknown-types",
+      (type) => classifyTrainingType(type).known
+    );
+  } catch (error) {
+    console.error("Error getting unknown training types:", error);
+    return [];
+  }
+}
+
+/**
+ * Record movement names that matched no exercise dictionary entry
+ * @param names - Normalized movement names
+ * @param week - Week they appeared in (DD/MM/YYYY-DD/MM/YYYY)
+ */
+export async function recordUnmatchedExercises(
+  names: string[],
+  week: string
+): Promise<void> {
+  try {
+    await recordReviewEntries("exercises:unmatched", names, week);
+  } catch (error) {
+    console.error("Error recording unmatched exercises:", error);
+  }
+}
+
+/**
+ * Get movement names waiting for review
+ * Names that the dictionary has since learned to match are left out.
+ * @returns Unmatched movement names, most recently seen first
+ */
+export async function getUnmatchedExercises(): Promise<ReviewQueueEntry[]> {
+  try {
+    return await getReviewEntries(
+      "exercises:unmatched",
+      (name) => linkExercise(name).unmatched.length === 0
+    );
+  } catch (error) {
+    console.error("Error getting unmatched exercises:", error);
+    return [];
+  }
+}
+
+/**
+ * Record main part durations that couldn't be parsed into minutes
+ * @param durations - Raw main part durations
+ * @param week - Week they appeared in (DD/MM/YYYY-DD/MM/YYYY)
+ */
+export async function recordUnparsedDurations(
+  durations: string[],
+  week: string
+): Promise<void> {
+  try {
+    await recordReviewEntries("durations:unparsed", durations, week);
+  } catch (error) {
+    console.error("Error recording unparsed durations:", error);
+  }
+}
+
+/**
+ * Get main part durations waiting for review
+ * Durations that the parser has since learned to read are left out.
+ * @returns Unparsed durations, most recently seen first
+ */
+export async function getUnparsedDurations(): Promise<ReviewQueueEntry[]> {
+  try {
+    return await getReviewEntries(
+      "durations:unparsed",
+      (duration) => parseDurationMinutes(duration) !== null
+    );
+  } catch (error) {
+    console.error("Error getting unparsed durations:", error);
+    return [];
+  }
+}
+
+/**
+ * Add a day to a search term's index
+ * @param term - Search term
+ * @param isoDate - Date in YYYY-MM-DD format
+ */
+async function addSearchTerm(term: string, isoDate: string): Promise<void> {
+  const storage = getStorage();
+  await storage.zadd(`search:term:${term}`, {
+    score: isoToDate(isoDate).getTime(),
+    member: isoDate,
+  });
+  await storage.zadd("search:vocabulary", { score: 0, member: term });
+}
+
+/**
+ * Remove a day from a search term's index
+ * Terms left without days are dropped from the vocabulary.
+ * @param term - Search term
+ * @param isoDate - Date in YYYY-MM-DD format
+ */
+async function removeSearchTerm(term: string, isoDate: string): Promise<void> {
+  const storage = getStorage();
+  await storage.zrem(`search:term:${term}`, isoDate);
+  if (!(await storage.exists(`search:term:${term}`))) {
+    await storage.zrem("search:vocabulary", term);
+  }
+}
+
+/**
+ * Re-index a day's effective sessions for search
+ * Only the day's own terms are touched. Builds the whole index instead if it
+ * doesn't exist yet.
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @param firstSeen - First-seen map already loaded by the caller, if any
  */
-export async function logScrapingOperation(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  result: any
+async function updateSearchIndex(
+  isoDate: string,
+  firstSeen?: Record<string, string>
 ): Promise<void> {
   try {
-    const today = new Date().toISOString().split("T")[0];
-    const key = `logs:scraping:${today}`;
-    // Upstash Redis handles JSON serialization automatically
-    await redis.set(key, result, { ex: 60 * 60 * 24 * 30 }); // 30 days TTL
+    const storage = getStorage();
+    if (!(await storage.exists("search:vocabulary"))) {
+      await rebuildSearchIndex();
+      return;
+    }
+
+    const day = await getDayScheduleByISO(isoDate, firstSeen);
+    const docs = day ? toSearchDocuments(day, isoDate) : [];
+    const previous =
+      (await storage.get<SearchDocument[]>(`search:day:${isoDate}`)) ?? [];
+    const terms = toSearchTerms(docs);
+
+    for (const term of toSearchTerms(previous)) {
+      if (!terms.includes(term)) await removeSearchTerm(term, isoDate);
+    }
+    for (const term of terms) {
+      await addSearchTerm(term, isoDate);
+    }
+
+    if (docs.length > 0) {
+      await storage.set(`search:day:${isoDate}`, docs);
+    } else {
+      await storage.del(`search:day:${isoDate}`);
+    }
+  } catch (error) {
+    console.error("Error updating search index:", error);
+  }
+}
+
+/**
+ * Build the search index from all stored days
+ */
+async function rebuildSearchIndex(): Promise<void> {
+  const storage = getStorage();
+  const firstSeen = await getExerciseFirstSeen();
+  let terms = 0;
+
+  for (const isoDate of await storage.zrange("schedules:days:list")) {
+    const day = await getDayScheduleByISO(isoDate, firstSeen);
+    const docs = day ? toSearchDocuments(day, isoDate) : [];
+    if (docs.length === 0) continue;
+
+    await storage.set(`search:day:${isoDate}`, docs);
+    for (const term of toSearchTerms(docs)) {
+      await addSearchTerm(term, isoDate);
+      terms++;
+    }
+  }
+
+  console.log(`Built search index: ${terms} day terms`);
+}
+
+/**
+ * Search stored sessions by exercise, training type and method
+ * @param query - Query as typed by the user
+ * @param limit - Maximum number of results
+ * @returns Matching sessions (most recent first) and their total count
+ */
+export async function searchSessions(
+  query: string,
+  limit: number
+): Promise<{ results: SearchResult[]; total: number }> {
+  try {
+    const parsed = parseSearchQuery(query);
+    if (parsed.words.length === 0 && parsed.exerciseIds.length === 0) {
+      return { results: [], total: 0 };
+    }
+
+    const storage = getStorage();
+    if (!(await storage.exists("search:vocabulary"))) {
+      await rebuildSearchIndex();
+    }
+
+    // Load only the terms the query needs
+    const vocabulary = await storage.zrange("search:vocabulary");
+    const selected = selectQueryTerms(vocabulary, parsed);
+    const terms: SearchTerms = Object.fromEntries(
+      await Promise.all(
+        selected.map(async (term) => [
+          term,
+          await storage.zrange(`search:term:${term}`),
+        ])
+      )
+    );
+
+    const dates = findCandidateDates(terms, parsed).sort().reverse();
+    const days = await Promise.all(
+      dates.map((isoDate) =>
+        storage.get<SearchDocument[]>(`search:day:${isoDate}`)
+      )
+    );
+    const matches = days
+      .flatMap((docs) => docs ?? [])
+      .filter((doc) => matchesSearchQuery(doc, parsed));
+
+    // Derived fields (highlights) come from the days as read now
+    const page = matches.slice(0, limit);
+    const firstSeen = await getExerciseFirstSeen();
+    const sessions = new Map(
+      await Promise.all(
+        [...new Set(page.map((doc) => doc.isoDate))].map(
+          async (isoDate) =>
+            [
+              isoDate,
+              (await getDayScheduleByISO(isoDate, firstSeen))
+                ?.trainingSessions ?? [],
+            ] as const
+        )
+      )
+    );
+
+    return {
+      results: page.map((doc) =>
+        toSearchResult(doc, sessions.get(doc.isoDate)?.[doc.sessionIndex])
+      ),
+      total: matches.length,
+    };
+  } catch (error) {
+    console.error("Error searching sessions:", error);
+    return { results: [], total: 0 };
+  }
+}
+
+/**
+ * Get historical backfill progress
+ * @returns Backfill state or null if no backfill was started
+ */
+export async function getBackfillState(): Promise<BackfillState | null> {
+  try {
+    return await getStorage().get<BackfillState>("backfill:state");
+  } catch (error) {
+    console.error("Error getting backfill state:", error);
+    return null;
+  }
+}
+
+/**
+ * Store historical backfill progress
+ * @param state - Backfill state
+ */
+export async function storeBackfillState(state: BackfillState): Promise<void> {
+  try {
+    await getStorage().set("backfill:state", state);
+  } catch (error) {
+    console.error("Error storing backfill state:", error);
+  }
+}
+
+/**
+ * Append a scrape run to the run history
+ * Keeps the newest MAX_SCRAPE_RUNS runs; records of runs dropped from the
+ * list are deleted with them, so every listed ID has a record
+ * @param run - Completed scrape run
+ */
+export async function recordScrapeRun(run: ScrapeRun): Promise<void> {
+  try {
+    const storage = getStorage();
+    await storage.set(`logs:scrape-run:${run.runId}`, run);
+    await storage.lpush("logs:scrape-runs", run.runId);
+
+    const dropped = await storage.lrange<string>(
+      "logs:scrape-runs",
+      MAX_SCRAPE_RUNS,
+      -1
+    );
+    await storage.ltrim("logs:scrape-runs", 0, MAX_SCRAPE_RUNS - 1);
+    await Promise.all(
+      dropped.map((id) => storage.del(`logs:scrape-run:${id}`))
+    );
   } catch (error) {
-    console.error("Error logging scraping operation:", error);
+    console.error("Error recording scrape run:", error);
+  }
+}
+
+/**
+ * Get a page of scrape runs
+ * @param offset - Number of newest runs to skip
+ * @param limit - Maximum number of runs to return
+ * @returns Runs (newest first) and total number of runs in history
+ */
+export async function getScrapeRuns(
+  offset: number,
+  limit: number
+): Promise<{ runs: ScrapeRun[]; total: number }> {
+  try {
+    const storage = getStorage();
+    const [ids, total] = await Promise.all([
+      storage.lrange<string>("logs:scrape-runs", offset, offset + limit - 1),
+      storage.llen("logs:scrape-runs"),
+    ]);
+
+    const runs = await Promise.all(ids.map((id) => getScrapeRun(String(id))));
+
+    return {
+      runs: runs.filter((run): run is ScrapeRun => run !== null),
+      total,
+    };
+  } catch (error) {
+    console.error("Error getting scrape runs:", error);
+    return { runs: [], total: 0 };
+  }
+}
+
+/**
+ * Get a single scrape run
+ * @param runId - Run ID
+ * @returns Scrape run or null
+ */
+export async function getScrapeRun(runId: string): Promise<ScrapeRun | null> {
+  try {
+    return await getStorage().get<ScrapeRun>(`logs:scrape-run:${runId}`);
+  } catch (error) {
+    console.error("Error getting scrape run:", error);
+    return null;
   }
 }
 
@@ -241,8 +1282,10 @@ export async function shouldSkipScraping(): Promise<{
   daysAhead: number;
 }> {
   try {
+    const storage = getStorage();
+
     // Get all day dates from sorted set
-    const dates = await redis.zrange("schedules:days:list", 0, -1);
+    const dates = await storage.zrange("schedules:days:list");
 
     if (!dates || dates.length === 0) {
       return {
@@ -253,25 +1296,12 @@ export async function shouldSkipScraping(): Promise<{
     }
 
     // Calculate how many days ahead we have schedules for
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    // Find the latest date in our schedules
-    let maxDate = today;
-
-    for (const dateStr of dates) {
-      const date = new Date(dateStr as string);
-      if (date > maxDate) {
-        maxDate = date;
-      }
-    }
-
-    const daysAhead = Math.ceil(
-      (maxDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
-    );
+    const today = getTodayISO();
+    const maxDate = dates.reduce((max, date) => (date > max ? date : max));
+    const daysAhead = Math.max(daysBetween(today, maxDate), 0);
 
     // Check last update time
-    const lastUpdate = await redis.get<number>("schedules:latest_update");
+    const lastUpdate = await storage.get<number>("schedules:latest_update");
     const daysSinceUpdate = lastUpdate
       ? Math.floor((Date.now() - lastUpdate) / (1000 * 60 * 60 * 24))
       : 999;
@@ -1,6 +1,7 @@
 import { google } from "@ai-sdk/google";
 import { generateObject } from "ai";
 import { WeekScheduleSchema, type WeekSchedule } from "./types";
+import { findDateIssues, parseScheduleMarkdown } from "./schedule-parser";
 
 /**
  * LLM Parsing Prompt
@@ -42,6 +43,8 @@ Create a JSON object with this exact structure:
    - Infer the year from context or current date
    - Handle year boundaries (e.g., "30/12/2024-05/01/2025")
 2. **Date**: Extract from format "DD.MM Day" (e.g., "20.10 Poniedziałek")
+   - Always two-digit day and month (e.g., "05.01")
+   - Every date must fall inside the week range
 3. **Day Name**: Polish day name (Poniedziałek, Wtorek, Środa, Czwartek, Piątek, Sobota, Niedziela)
 4. **Training Type**: Text after ⇒ symbol (e.g., "Speed", "Athletic", "HYROX SPEED")
    - Keep original casing and spacing
@@ -97,11 +100,13 @@ IMPORTANT: The week field MUST include the full year in both dates (DD/MM/YYYY-D
  * Parse markdown content using LLM to extract structured training schedule
  * @param markdown - Raw markdown content from blog post
  * @param sourceUrl - Source URL of the blog post
+ * @param publishedAt - Post publication timestamp, used to infer the year
  * @returns Parsed and validated WeekSchedule object
  */
 export async function parseScheduleWithLLM(
   markdown: string,
-  sourceUrl: string
+  sourceUrl: string,
+  publishedAt?: string
 ): Promise<WeekSchedule> {
   try {
     console.log("Parsing schedule with LLM...");
@@ -109,8 +114,16 @@ export async function parseScheduleWithLLM(
     // Use Vercel AI SDK with structured output
     const result = await generateObject({
       model: google("gemini-2.5-flash"),
-      schema: WeekScheduleSchema.omit({ sourceUrl: true, scrapedAt: true }),
-      prompt: `${PARSING_PROMPT}\n\n## Markdown Content to Parse:\n\n${markdown}`,
+      schema: WeekScheduleSchema.omit({
+        sourceUrl: true,
+        sourceVersion: true,
+        scrapedAt: true,
+      }),
+      prompt: `${PARSING_PROMPT}${
+        publishedAt
+          ? `\n\nThe post was published on ${publishedAt}. Use this date to infer the year.`
+          : ""
+      }\n\n## Markdown Content to Parse:\n\n${markdown}`,
       maxRetries: 2,
     });
 
@@ -128,6 +141,14 @@ export async function parseScheduleWithLLM(
     // Validate with Zod
     const validated = WeekScheduleSchema.parse(schedule);
 
+    // Reject weeks whose days don't fit the week range
+    const dateIssues = findDateIssues(validated);
+    if (dateIssues.length > 0) {
+      throw new Error(
+        `Inconsistent dates in week ${validated.week}: ${dateIssues.join("; ")}`
+      );
+    }
+
     console.log(`Successfully parsed schedule for week: ${validated.week}`);
     console.log(
       `Days: ${validated.days.length}, Total sessions: ${validated.days.reduce(
@@ -144,32 +165,37 @@ export async function parseScheduleWithLLM(
 }
 
 /**
- * Parse multiple blog posts and return valid schedules
- * @param posts - Array of blog posts with markdown content
- * @returns Array of successfully parsed schedules
+ * Parse markdown content, preferring the deterministic parser
+ * Falls back to the LLM only when rule-based parsing fails or is incomplete
+ * @param markdown - Raw markdown content from blog post
+ * @param sourceUrl - Source URL of the blog post
+ * @param publishedAt - Post publication timestamp, used to infer the year
+ * @returns Parsed and validated WeekSchedule object
  */
-export async function parseAllSchedules(
-  posts: Array<{ markdown: string; url: string }>
-): Promise<WeekSchedule[]> {
-  const schedules: WeekSchedule[] = [];
-  const errors: string[] = [];
-
-  for (const post of posts) {
-    try {
-      const schedule = await parseScheduleWithLLM(post.markdown, post.url);
-      schedules.push(schedule);
-    } catch (error) {
-      const errorMessage = `Failed to parse ${post.url}: ${
-        error instanceof Error ? error.message : String(error)
-      }`;
-      console.error(errorMessage);
-      errors.push(errorMessage);
-    }
-  }
-
-  if (errors.length > 0) {
-    console.warn(`Parsing completed with ${errors.length} error(s)`);
+export async function parseSchedule(
+  markdown: string,
+  sourceUrl: string,
+  publishedAt?: string
+): Promise<WeekSchedule> {
+  const published = publishedAt ? new Date(publishedAt) : null;
+  const reference =
+    published && !isNaN(published.getTime()) ? published : new Date();
+  const { schedule, issues } = parseScheduleMarkdown(
+    markdown,
+    sourceUrl,
+    reference
+  );
+
+  if (schedule && issues.length === 0) {
+    console.log(
+      `Parsed schedule for week ${schedule.week} without LLM (${sourceUrl})`
+    );
+    return schedule;
   }
 
-  return schedules;
+  console.warn(
+    `Deterministic parser incomplete for ${sourceUrl}, falling back to LLM:`,
+    issues
+  );
+  return parseScheduleWithLLM(markdown, sourceUrl, publishedAt);
 }
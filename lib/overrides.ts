@@ -0,0 +1,126 @@
+import type {
+  DayOverride,
+  DaySchedule,
+  SessionEdit,
+  SessionOverride,
+} from "./types";
+
+/**
+ * Manual Overrides
+ * Corrections are stored separately from scraped days and applied on read,
+ * so re-scrapes overwrite the scraped data without losing manual edits.
+ */
+
+/**
+ * Reduce a session to its editable fields
+ * @param session - Training session
+ * @returns Session without verification or edit markers
+ */
+export function toSessionEdit(session: SessionEdit): SessionEdit {
+  return {
+    type: session.type,
+    exercises: session.exercises,
+    trainingMethod: session.trainingMethod,
+    mainPartDuration: session.mainPartDuration,
+  };
+}
+
+/**
+ * Find the session a session override applies to
+ * Prefers the session at the recorded index if its type still matches,
+ * then the first unclaimed session with the same type, then the index.
+ * @param sessions - Sessions the override is applied on
+ * @param index - Recorded session index
+ * @param baseType - Session type at edit time
+ * @param claimed - Indexes already matched by other overrides
+ * @returns Matching index or -1
+ */
+function matchSession(
+  sessions: SessionEdit[],
+  index: number,
+  baseType: string,
+  claimed: Set<number>
+): number {
+  if (sessions[index]?.type === baseType && !claimed.has(index)) {
+    return index;
+  }
+
+  const byType = sessions.findIndex(
+    (session, i) => session.type === baseType && !claimed.has(i)
+  );
+  if (byType !== -1) return byType;
+
+  return index < sessions.length && !claimed.has(index) ? index : -1;
+}
+
+/**
+ * Match session overrides to the sessions they currently apply to
+ * Overrides whose session no longer exists are dropped.
+ * @param sessions - Sessions the overrides are applied on
+ * @param overrides - Session overrides in the order they were recorded
+ * @returns Overrides keyed by current session index
+ */
+export function resolveSessionOverrides(
+  sessions: SessionEdit[],
+  overrides: SessionOverride[]
+): Map<number, SessionOverride> {
+  const resolved = new Map<number, SessionOverride>();
+  const claimed = new Set<number>();
+
+  for (const override of overrides) {
+    const target = matchSession(
+      sessions,
+      override.index,
+      override.baseType,
+      claimed
+    );
+    if (target === -1) continue;
+
+    claimed.add(target);
+    resolved.set(target, override);
+  }
+
+  return resolved;
+}
+
+/**
+ * Apply a manual override to a scraped day schedule
+ * Edited sessions lose their grounding verification, since they no longer
+ * come from the source post.
+ * @param day - Scraped day schedule
+ * @param override - Manual override for the day (if any)
+ * @returns Effective day schedule
+ */
+export function applyDayOverride(
+  day: DaySchedule,
+  override: DayOverride | null
+): DaySchedule {
+  if (!override) return day;
+
+  if (override.trainingSessions) {
+    return {
+      ...day,
+      overriddenAt: override.updatedAt,
+      trainingSessions: override.trainingSessions.map((session) => ({
+        ...toSessionEdit(session),
+        edited: true,
+      })),
+    };
+  }
+
+  const resolved = resolveSessionOverrides(
+    day.trainingSessions,
+    override.sessions
+  );
+
+  return {
+    ...day,
+    overriddenAt: override.updatedAt,
+    trainingSessions: day.trainingSessions.map((session, i) => {
+      const match = resolved.get(i);
+      return match
+        ? { ...toSessionEdit(session), ...match.changes, edited: true }
+        : session;
+    }),
+  };
+}
@@ -0,0 +1,321 @@
+import {
+  WeekScheduleSchema,
+  type DaySchedule,
+  type TrainingSession,
+  type WeekSchedule,
+} from "./types";
+import {
+  POLISH_DAY_NAMES,
+  getPolishDayName,
+  inferYear,
+  parseWeekId,
+  resolveDayInWeek,
+} from "./dates";
+
+/**
+ * Deterministic Schedule Parser
+ * Parses the regular blog post format without calling the LLM:
+ *
+ *   Tydzień 20/10-26/10
+ *   20.10 Poniedziałek
+ *   ⇒ Speed
+ *   Ćwiczenia: cal SKI/bike ERG, box jump, DU (skakanka)
+ *   Metoda treningowa: 2 x EMOM
+ *   Czas pracy w części głównej: 21 min
+ */
+
+const WEEK_PATTERN =
+  /Tydzie[nń]\s*(\d{1,2})[./](\d{1,2})(?:[./](\d{4}))?\s*[-–—]\s*(\d{1,2})[./](\d{1,2})(?:[./](\d{4}))?/i;
+const DAY_PATTERN = new RegExp(
+  `^(\\d{1,2})\\.(\\d{1,2})\\.?\\s+(${POLISH_DAY_NAMES.join("|")})\\b`,
+  "iu"
+);
+const TYPE_PATTERN = /^(?:⇒|=>|⇨|→|➔)\s*(.+)$/;
+const EXERCISES_PATTERN = /^Ćwiczenia\s*:?\s*(.*)$/i;
+const METHOD_PATTERN = /^Metoda treningowa\s*:?\s*(.*)$/i;
+const DURATION_PATTERN = /^Czas pracy w części głównej\s*:?\s*(.*)$/i;
+
+type SessionField = "exercises" | "trainingMethod" | "mainPartDuration";
+
+/**
+ * Result of a deterministic parse
+ * `issues` is empty only when the schedule is complete and safe to store
+ */
+export interface DeterministicParseResult {
+  schedule: WeekSchedule | null;
+  issues: string[];
+}
+
+/**
+ * Strip markdown decoration from a single line
+ * @param line - Raw markdown line
+ * @returns Plain text line
+ */
+function cleanLine(line: string): string {
+  return line
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/\\([!-/:-@[-`{-~])/g, "$1")
+    .replace(/\*\*|__/g, "")
+    .replace(/^\s*(?:#{1,6}|>|[-*+])\s+/, "")
+    .replace(/^\*|\*$/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Split an exercise list on commas that are not inside parentheses
+ * or between digits (e.g. "2,5 kg")
+ * @param value - Comma separated exercise list
+ * @returns Trimmed exercise names
+ */
+function splitExercises(value: string): string[] {
+  const exercises: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+
+    if (char === "(") depth++;
+    if (char === ")") depth = Math.max(0, depth - 1);
+
+    const isDecimalComma =
+      /\d/.test(value[i - 1] ?? "") && /\d/.test(value[i + 1] ?? "");
+
+    if (char === "," && depth === 0 && !isDecimalComma) {
+      exercises.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  exercises.push(current);
+
+  return exercises.map((e) => e.trim()).filter(Boolean);
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+/**
+ * Build the DD/MM/YYYY-DD/MM/YYYY week identifier
+ * Missing years are inferred from the reference date; an end month
+ * earlier than the start month rolls over to the next year.
+ */
+function formatWeek(
+  start: { day: number; month: number; year?: number },
+  end: { day: number; month: number; year?: number },
+  reference: Date
+): string {
+  const startYear = start.year ?? inferYear(start.day, start.month, reference);
+  const endYear =
+    end.year ?? (end.month < start.month ? startYear + 1 : startYear);
+
+  return `${pad(start.day)}/${pad(start.month)}/${startYear}-${pad(
+    end.day
+  )}/${pad(end.month)}/${endYear}`;
+}
+
+/**
+ * Check that every day of a schedule lies inside its week range and that
+ * its day name matches the actual weekday
+ * @param schedule - Parsed week schedule
+ * @returns List of human-readable issues (empty when consistent)
+ */
+export function findDateIssues(schedule: WeekSchedule): string[] {
+  if (!parseWeekId(schedule.week)) {
+    return [`Invalid week range "${schedule.week}"`];
+  }
+
+  const issues: string[] = [];
+
+  for (const day of schedule.days) {
+    const isoDate = resolveDayInWeek(day.date, schedule.week);
+    if (!isoDate) {
+      issues.push(`${day.date}: outside week ${schedule.week}`);
+      continue;
+    }
+
+    const actualDayName = getPolishDayName(isoDate);
+    if (actualDayName.toLowerCase() !== day.dayName.toLowerCase()) {
+      issues.push(
+        `${day.date}: ${day.dayName} doesn't match ${actualDayName} (${isoDate})`
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check a parsed schedule for missing data and inconsistent dates
+ * @param schedule - Parsed week schedule
+ * @returns List of human-readable issues (empty when complete)
+ */
+export function findScheduleIssues(schedule: WeekSchedule): string[] {
+  const issues: string[] = [];
+
+  if (schedule.days.length === 0) {
+    issues.push("No days found");
+  }
+
+  const sessionCount = schedule.days.reduce(
+    (sum, day) => sum + day.trainingSessions.length,
+    0
+  );
+  if (schedule.days.length > 0 && sessionCount === 0) {
+    issues.push("No training sessions found");
+  }
+
+  for (const day of schedule.days) {
+    day.trainingSessions.forEach((session, idx) => {
+      const label = `${day.date} session ${idx + 1} (${session.type})`;
+      if (session.exercises.length === 0) {
+        issues.push(`${label}: missing exercises`);
+      }
+      if (!session.trainingMethod) {
+        issues.push(`${label}: missing training method`);
+      }
+      if (!session.mainPartDuration) {
+        issues.push(`${label}: missing duration`);
+      }
+    });
+  }
+
+  issues.push(...findDateIssues(schedule));
+
+  return issues;
+}
+
+/**
+ * Parse markdown content with hand-written rules
+ * @param markdown - Raw markdown content from blog post
+ * @param sourceUrl - Source URL of the blog post
+ * @param reference - Date used to infer missing years (defaults to now)
+ * @returns Parsed schedule (or null) and any issues found
+ */
+export function parseScheduleMarkdown(
+  markdown: string,
+  sourceUrl: string,
+  reference: Date = new Date()
+): DeterministicParseResult {
+  const lines = markdown.split(/\r?\n/).map(cleanLine).filter(Boolean);
+
+  let week: string | null = null;
+  const days: DaySchedule[] = [];
+  let currentDay: DaySchedule | null = null;
+  let currentSession: TrainingSession | null = null;
+  let pendingField: SessionField | null = null;
+
+  const setField = (field: SessionField, value: string) => {
+    if (!currentSession) return;
+    if (field === "exercises") {
+      currentSession.exercises.push(...splitExercises(value));
+    } else {
+      currentSession[field] = value;
+    }
+  };
+
+  for (const line of lines) {
+    if (!week) {
+      const weekMatch = line.match(WEEK_PATTERN);
+      if (weekMatch) {
+        const [, sd, sm, sy, ed, em, ey] = weekMatch;
+        week = formatWeek(
+          { day: +sd, month: +sm, year: sy ? +sy : undefined },
+          { day: +ed, month: +em, year: ey ? +ey : undefined },
+          reference
+        );
+        continue;
+      }
+    }
+
+    const dayMatch = line.match(DAY_PATTERN);
+    if (dayMatch) {
+      const [, day, month, name] = dayMatch;
+      const dayName =
+        POLISH_DAY_NAMES.find(
+          (d) => d.toLowerCase() === name.toLowerCase()
+        ) ?? name;
+
+      currentDay = {
+        date: `${pad(+day)}.${pad(+month)}`,
+        dayName,
+        trainingSessions: [],
+      };
+      days.push(currentDay);
+      currentSession = null;
+      pendingField = null;
+      continue;
+    }
+
+    const typeMatch = line.match(TYPE_PATTERN);
+    if (typeMatch && currentDay) {
+      currentSession = {
+        type: typeMatch[1].trim(),
+        exercises: [],
+        trainingMethod: "",
+        mainPartDuration: "",
+      };
+      currentDay.trainingSessions.push(currentSession);
+      pendingField = null;
+      continue;
+    }
+
+    const fieldMatches: Array<[SessionField, RegExpMatchArray | null]> = [
+      ["exercises", line.match(EXERCISES_PATTERN)],
+      ["trainingMethod", line.match(METHOD_PATTERN)],
+      ["mainPartDuration", line.match(DURATION_PATTERN)],
+    ];
+    const fieldMatch = fieldMatches.find(([, match]) => match !== null);
+
+    if (fieldMatch) {
+      const [field, match] = fieldMatch;
+      const value = match![1].trim();
+      // Value may be on the following line ("Ćwiczenia:" alone)
+      if (value) {
+        setField(field, value);
+        pendingField = null;
+      } else {
+        pendingField = field;
+      }
+      continue;
+    }
+
+    if (pendingField) {
+      setField(pendingField, line);
+      pendingField = null;
+    }
+  }
+
+  if (days.length === 0) {
+    return { schedule: null, issues: ["No day headers found"] };
+  }
+
+  // Fall back to the first and last day when the week header is missing
+  if (!week) {
+    const [firstDay, firstMonth] = days[0].date.split(".").map(Number);
+    const [lastDay, lastMonth] = days[days.length - 1].date
+      .split(".")
+      .map(Number);
+    week = formatWeek(
+      { day: firstDay, month: firstMonth },
+      { day: lastDay, month: lastMonth },
+      reference
+    );
+  }
+
+  const result = WeekScheduleSchema.safeParse({
+    week,
+    sourceUrl,
+    scrapedAt: new Date().toISOString(),
+    days,
+  });
+
+  if (!result.success) {
+    return { schedule: null, issues: [result.error.message] };
+  }
+
+  return { schedule: result.data, issues: findScheduleIssues(result.data) };
+}
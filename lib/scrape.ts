@@ -0,0 +1,139 @@
+import { randomUUID } from "crypto";
+import { scrapeAllBlogPosts } from "./scraper";
+import { ingestPosts } from "./ingest";
+import { recordScrapeRun, shouldSkipScraping } from "./kv";
+import type { ScrapeRun } from "./types";
+
+interface ScrapeOptions {
+  force?: boolean; // Ignore the days-ahead skip check
+}
+
+/**
+ * Create an empty run record
+ */
+function createScrapeRun(trigger: ScrapeRun["trigger"]): ScrapeRun {
+  const now = new Date();
+
+  return {
+    runId: `${now.getTime()}-${randomUUID().slice(0, 8)}`,
+    trigger,
+    status: "success",
+    startedAt: now.toISOString(),
+    finishedAt: now.toISOString(),
+    durationMs: 0,
+    urls: [],
+    outcomes: [],
+    timings: {},
+    storedWeeks: [],
+    skippedWeeks: [],
+    changedDays: [],
+    flaggedSessions: [],
+    unknownTypes: [],
+    unmatchedExercises: [],
+    unparsedDurations: [],
+    errors: [],
+    totalDaysStored: 0,
+  };
+}
+
+/**
+ * Stamp the finish time on a run and append it to the run history
+ */
+async function finishScrapeRun(run: ScrapeRun): Promise<ScrapeRun> {
+  const finishedAt = new Date();
+  run.finishedAt = finishedAt.toISOString();
+  run.durationMs = finishedAt.getTime() - new Date(run.startedAt).getTime();
+  await recordScrapeRun(run);
+  return run;
+}
+
+/**
+ * Run the scrape pipeline and record it in the run history
+ *
+ * Process:
+ * 1. Scrape blog category page for post URLs
+ * 2. Scrape each blog post for markdown content
+ * 3. Skip posts whose content hash is unchanged since last ingest
+ * 4. Parse markdown (rule-based parser, LLM fallback)
+ * 5. Verify parsed values against the source markdown (flag failures)
+ * 6. Store in KV (re-stores weeks whose post changed)
+ * 7. Record the run in the scrape run history
+ *
+ * @param trigger - What started the run
+ * @param options - Pass force to bypass the skip check
+ * @returns Recorded run; fatal is true if the pipeline threw
+ */
+export async function runScrape(
+  trigger: ScrapeRun["trigger"],
+  options: ScrapeOptions = {}
+): Promise<{ run: ScrapeRun; fatal: boolean }> {
+  const run = createScrapeRun(trigger);
+
+  try {
+    console.log(`Starting scraping process (run ${run.runId})...`);
+
+    // Check if we should skip scraping (optimization)
+    let stageStart = Date.now();
+    const skipCheck = await shouldSkipScraping();
+    run.timings.skipCheck = Date.now() - stageStart;
+    run.daysAhead = skipCheck.daysAhead;
+    console.log(`Skip check: ${skipCheck.reason}`);
+
+    if (skipCheck.shouldSkip && !options.force) {
+      run.status = "skipped";
+      run.skipReason = skipCheck.reason;
+      return { run: await finishScrapeRun(run), fatal: false };
+    }
+
+    // Step 1 & 2: Scrape blog posts
+    stageStart = Date.now();
+    const posts = await scrapeAllBlogPosts();
+    run.timings.fetch = Date.now() - stageStart;
+    run.urls = posts.map((p) => p.url);
+
+    if (posts.length === 0) {
+      run.status = "failed";
+      run.errors = ["No blog posts found"];
+      return { run: await finishScrapeRun(run), fatal: false };
+    }
+
+    console.log(`Scraped ${posts.length} blog posts`);
+
+    // Step 3-6: Detect changes, parse, verify and store
+    const ingest = await ingestPosts(posts);
+
+    // Step 7: Record run
+    run.status =
+      ingest.errors.length === 0
+        ? "success"
+        : ingest.stored.length + ingest.skipped.length > 0
+        ? "partial"
+        : "failed";
+    run.outcomes = ingest.outcomes;
+    run.timings = { ...run.timings, ...ingest.timings };
+    run.storedWeeks = ingest.stored;
+    run.skippedWeeks = ingest.skipped;
+    run.changedDays = ingest.changedDays;
+    run.flaggedSessions = ingest.flaggedSessions;
+    run.unknownTypes = ingest.unknownTypes;
+    run.unmatchedExercises = ingest.unmatchedExercises;
+    run.unparsedDurations = ingest.unparsedDurations;
+    run.errors = ingest.errors;
+    run.totalDaysStored = ingest.totalDaysStored;
+
+    console.log(
+      `Stored: ${ingest.stored.length}, Skipped: ${ingest.skipped.length}, Changed days: ${ingest.changedDays.length}, Flagged sessions: ${ingest.flaggedSessions.length}, Unknown types: ${ingest.unknownTypes.length}, Unmatched exercises: ${ingest.unmatchedExercises.length}, Unparsed durations: ${ingest.unparsedDurations.length}, Errors: ${ingest.errors.length}`
+    );
+
+    return { run: await finishScrapeRun(run), fatal: false };
+  } catch (error) {
+    console.error("Fatal error in scraping process:", error);
+
+    run.status = "failed";
+    run.errors = [
+      ...run.errors,
+      error instanceof Error ? error.message : String(error),
+    ];
+    return { run: await finishScrapeRun(run), fatal: true };
+  }
+}
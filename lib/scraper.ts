@@ -1,32 +1,28 @@
-import Firecrawl from "firecrawl";
+import { getFetcher } from "./fetcher";
+import type { BlogPost } from "./types";
 
-// Initialize Firecrawl client
-const firecrawl = new Firecrawl({
-  apiKey: process.env.FIRECRAWL_API_KEY!,
-});
+/**
+ * Build the URL of a category listing page
+ * @param page - 1-based page number (page 1 is the category root)
+ * @returns Category page URL
+ */
+function getCategoryPageUrl(page: number): string {
+  const categoryUrl = process.env.BLOG_CATEGORY_URL!.replace(/\/$/, "");
+  return page <= 1 ? categoryUrl : `${categoryUrl}/page/${page}`;
+}
 
 /**
- * Scrape the blog category page to extract blog post URLs
- * @returns Array of blog post URLs (expects 2: current week + next week)
+ * Scrape a single category listing page for blog post URLs
+ * @param page - 1-based page number
+ * @returns All "plan-treningowy" post URLs on the page, in listing order
  */
-export async function scrapeCategoryPage(): Promise<string[]> {
+export async function scrapeCategoryListing(page: number): Promise<string[]> {
   try {
-    const categoryUrl = process.env.BLOG_CATEGORY_URL!;
+    const categoryUrl = getCategoryPageUrl(page);
 
     console.log("Scraping category page:", categoryUrl);
 
-    // Use the correct scrape() method with formats parameter
-    const scrapeResult = await firecrawl.scrape(categoryUrl, {
-      formats: ["links"],
-    });
-
-    console.log("Firecrawl response keys:", Object.keys(scrapeResult));
-
-    // Firecrawl SDK returns data directly, not wrapped in {success, data}
-    // Extract links from the response
-    const links = (scrapeResult.links || []) as Array<
-      string | { url?: string }
-    >;
+    const links = await getFetcher().fetchLinks(categoryUrl);
 
     if (!links || links.length === 0) {
       console.warn("No links found in category page");
@@ -39,52 +35,43 @@ export async function scrapeCategoryPage(): Promise<string[]> {
     // Should find both:
     // - https://www.hardywyzszaforma.pl/post/plan-treningowy-na-tydzie%C5%84-29-07-03-08
     // - https://www.hardywyzszaforma.pl/post/plan-treningowy
-    const blogPostUrls = links.filter((link) => {
-      const url =
-        typeof link === "string" ? link : (link as { url?: string }).url || "";
-      return (
+    const blogPostUrls = links.filter(
+      (url) =>
         url.includes("/post/plan-treningowy") && !url.includes("/categories/")
-      );
-    });
-
-    // Convert to string array if needed
-    const urlStrings = blogPostUrls
-      .map((link) =>
-        typeof link === "string" ? link : (link as { url?: string }).url || ""
-      )
-      .filter(Boolean);
-
-    // Return the 2 most recent posts (they should be in order)
-    const uniqueUrls = Array.from(new Set(urlStrings)).slice(0, 2);
-
-    console.log(`Found ${uniqueUrls.length} blog post URLs:`, uniqueUrls);
+    );
 
-    return uniqueUrls;
+    return Array.from(new Set(blogPostUrls));
   } catch (error) {
     console.error("Error scraping category page:", error);
     throw error;
   }
 }
 
+/**
+ * Scrape the blog category page to extract blog post URLs
+ * @returns Array of blog post URLs (expects 2: current week + next week)
+ */
+export async function scrapeCategoryPage(): Promise<string[]> {
+  const urls = await scrapeCategoryListing(1);
+
+  // Return the 2 most recent posts (they should be in order)
+  const uniqueUrls = urls.slice(0, 2);
+
+  console.log(`Found ${uniqueUrls.length} blog post URLs:`, uniqueUrls);
+
+  return uniqueUrls;
+}
+
 /**
  * Scrape a blog post to extract markdown content
  * @param url - Blog post URL
  * @returns Markdown content and metadata
  */
-export async function scrapeBlogPost(url: string): Promise<{
-  markdown: string;
-  url: string;
-}> {
+export async function scrapeBlogPost(url: string): Promise<BlogPost> {
   try {
     console.log("Scraping blog post:", url);
 
-    // Use the correct scrape() method
-    const scrapeResult = await firecrawl.scrape(url, {
-      formats: ["markdown"],
-    });
-
-    // Firecrawl SDK returns data directly
-    const markdown = scrapeResult.markdown;
+    const { markdown, publishedAt } = await getFetcher().fetchMarkdown(url);
 
     if (!markdown) {
       throw new Error(`Failed to scrape blog post (no markdown): ${url}`);
@@ -97,6 +84,7 @@ export async function scrapeBlogPost(url: string): Promise<{
     return {
       markdown,
       url,
+      publishedAt,
     };
   } catch (error) {
     console.error("Error scraping blog post:", error);
@@ -108,12 +96,7 @@ export async function scrapeBlogPost(url: string): Promise<{
  * Scrape all blog posts from the category page
  * @returns Array of scraped blog posts with markdown content
  */
-export async function scrapeAllBlogPosts(): Promise<
-  Array<{
-    markdown: string;
-    url: string;
-  }>
-> {
+export async function scrapeAllBlogPosts(): Promise<BlogPost[]> {
   try {
     // Get blog post URLs from category page
     const urls = await scrapeCategoryPage();
@@ -0,0 +1,231 @@
+import {
+  EQUIPMENT_LABELS,
+  Equipment,
+  getExercise,
+  linkExercise,
+  linkExercises,
+  normalizeExerciseName,
+} from "./exercises";
+import type {
+  DaySchedule,
+  SearchDocument,
+  SearchResult,
+  TrainingSession,
+} from "./types";
+
+/**
+ * Schedule Search
+ * Sessions are indexed by the folded words of their type, exercises and
+ * method, plus the names and aliases of linked dictionary exercises, so
+ * "cwiczenia" finds "ćwiczenia" and "wb" finds "Wall balls". Query words
+ * match as prefixes and all of them have to match.
+ */
+
+export interface SearchQuery {
+  words: string[]; // Folded query words
+  exerciseIds: string[]; // Dictionary exercises the whole query names
+}
+
+/**
+ * Terms index: word (or "#" + exercise ID) → ISO dates of days containing it
+ * Stored as one sorted set per term; a query loads only the terms it needs.
+ */
+export type SearchTerms = Record<string, string[]>;
+
+/**
+ * Split text into folded words
+ * @param text - Raw text
+ * @returns Unique words without diacritics or punctuation
+ */
+function toWords(text: string): string[] {
+  return normalizeExerciseName(text)
+    .split(/[\s/]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Build the search documents of a day
+ * @param day - Effective day schedule (with exercise references if linked)
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @returns One document per training session
+ */
+export function toSearchDocuments(
+  day: DaySchedule,
+  isoDate: string
+): SearchDocument[] {
+  return day.trainingSessions.map((session, sessionIndex) => {
+    const refs = session.exerciseRefs ?? linkExercises(session.exercises);
+    const exerciseIds = [
+      ...new Set(
+        refs.flatMap((ref) => ref.movements.flatMap((movement) => movement.ids))
+      ),
+    ];
+
+    // Dictionary names and aliases make abbreviations searchable both ways
+    const dictionaryText = [
+      ...exerciseIds.flatMap((id) => {
+        const entry = getExercise(id);
+        return entry ? [entry.name, ...entry.aliases] : [];
+      }),
+      ...refs.flatMap((ref) =>
+        ref.equipment.map((item) => EQUIPMENT_LABELS[item as Equipment] ?? "")
+      ),
+    ];
+
+    const words = new Set(
+      [
+        session.type,
+        ...session.exercises,
+        session.trainingMethod,
+        ...dictionaryText,
+      ].flatMap(toWords)
+    );
+
+    return {
+      isoDate,
+      date: day.date,
+      dayName: day.dayName,
+      sessionIndex,
+      type: session.type,
+      exercises: session.exercises,
+      trainingMethod: session.trainingMethod,
+      mainPartDuration: session.mainPartDuration,
+      words: [...words],
+      exerciseIds,
+    };
+  });
+}
+
+/**
+ * Index terms of a set of documents
+ * @param documents - Search documents
+ * @returns Unique words and exercise ID terms
+ */
+export function toSearchTerms(documents: SearchDocument[]): string[] {
+  return [
+    ...new Set(
+      documents.flatMap((doc) => [
+        ...doc.words,
+        ...doc.exerciseIds.map((id) => `#${id}`),
+      ])
+    ),
+  ];
+}
+
+/**
+ * Parse a search query
+ * Single characters are ignored when the query has longer words.
+ * @param query - Query as typed by the user
+ * @returns Query words and the exercises the query names
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const all = [...new Set(toWords(query))];
+  const words = all.some((word) => word.length > 1)
+    ? all.filter((word) => word.length > 1)
+    : all;
+
+  const linked = linkExercise(query);
+  const exerciseIds =
+    linked.unmatched.length === 0
+      ? [...new Set(linked.movements.flatMap((movement) => movement.ids))]
+      : [];
+
+  return { words, exerciseIds };
+}
+
+/**
+ * Check whether a document matches a query
+ * @param doc - Search document
+ * @param query - Parsed query
+ * @returns True if the document has a named exercise or every query word
+ */
+export function matchesSearchQuery(
+  doc: SearchDocument,
+  query: SearchQuery
+): boolean {
+  if (query.exerciseIds.some((id) => doc.exerciseIds.includes(id))) {
+    return true;
+  }
+
+  return (
+    query.words.length > 0 &&
+    query.words.every((word) => doc.words.some((w) => w.startsWith(word)))
+  );
+}
+
+/**
+ * Pick the indexed terms a query needs
+ * @param vocabulary - All indexed terms
+ * @param query - Parsed query
+ * @returns Terms starting with a query word, plus the named exercise IDs
+ */
+export function selectQueryTerms(
+  vocabulary: string[],
+  query: SearchQuery
+): string[] {
+  const ids = new Set(query.exerciseIds.map((id) => `#${id}`));
+  return vocabulary.filter((term) =>
+    term.startsWith("#")
+      ? ids.has(term)
+      : query.words.some((word) => term.startsWith(word))
+  );
+}
+
+/**
+ * Find days that may contain matching sessions
+ * @param terms - Terms index (at least the terms selected for the query)
+ * @param query - Parsed query
+ * @returns Candidate ISO dates (unsorted)
+ */
+export function findCandidateDates(
+  terms: SearchTerms,
+  query: SearchQuery
+): string[] {
+  const keys = Object.keys(terms);
+  const datesFor = (word: string) =>
+    new Set(
+      keys
+        .filter((key) => !key.startsWith("#") && key.startsWith(word))
+        .flatMap((key) => terms[key])
+    );
+
+  const candidates = new Set<string>();
+
+  if (query.words.length > 0) {
+    const [first, ...rest] = query.words.map(datesFor);
+    for (const date of first) {
+      if (rest.every((dates) => dates.has(date))) candidates.add(date);
+    }
+  }
+  for (const id of query.exerciseIds) {
+    terms[`#${id}`]?.forEach((date) => candidates.add(date));
+  }
+
+  return [...candidates];
+}
+
+/**
+ * Strip index-only fields from a document
+ * @param doc - Search document
+ * @param session - The session as read now, for its derived fields
+ * @returns Search result
+ */
+export function toSearchResult(
+  doc: SearchDocument,
+  session?: TrainingSession
+): SearchResult {
+  return {
+    isoDate: doc.isoDate,
+    date: doc.date,
+    dayName: doc.dayName,
+    sessionIndex: doc.sessionIndex,
+    type: doc.type,
+    exercises: doc.exercises,
+    trainingMethod: doc.trainingMethod,
+    mainPartDuration: doc.mainPartDuration,
+    canonicalType: session?.canonicalType,
+    exerciseRefs: session?.exerciseRefs,
+    durationMinutes: session?.durationMinutes,
+    newExercises: session?.newExercises,
+  };
+}
@@ -0,0 +1,340 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Redis } from "@upstash/redis";
+
+/**
+ * Storage Backend
+ * Minimal key-value + sorted set + list interface used by lib/kv.ts.
+ * Mirrors the subset of Redis commands the app relies on so that
+ * the Upstash client can be swapped for a local implementation.
+ */
+export interface StorageBackend {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, options?: { ex?: number }): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  del(key: string): Promise<void>;
+  keys(pattern: string): Promise<string[]>; // Redis glob pattern
+  zadd(key: string, entry: { score: number; member: string }): Promise<void>;
+  zrange(key: string, options?: { rev?: boolean }): Promise<string[]>;
+  zrem(key: string, member: string): Promise<void>;
+  lpush<T>(key: string, value: T): Promise<void>;
+  ltrim(key: string, start: number, stop: number): Promise<void>;
+  lrange<T>(key: string, start: number, stop: number): Promise<T[]>;
+  llen(key: string): Promise<number>;
+}
+
+export type StorageBackendType = "upstash" | "memory" | "file";
+
+export interface StorageConfig {
+  backend: StorageBackendType;
+  filePath?: string; // Only used by the file backend
+}
+
+const DEFAULT_FILE_PATH = ".data/storage.json";
+
+/**
+ * Upstash Redis backend (production)
+ */
+class UpstashStorage implements StorageBackend {
+  constructor(private redis: Redis) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.redis.get<T>(key);
+  }
+
+  async set<T>(key: string, value: T, options?: { ex?: number }) {
+    if (options?.ex) {
+      await this.redis.set(key, value, { ex: options.ex });
+    } else {
+      await this.redis.set(key, value);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.redis.exists(key)) === 1;
+  }
+
+  async del(key: string) {
+    await this.redis.del(key);
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    return this.redis.keys(pattern);
+  }
+
+  async zadd(key: string, entry: { score: number; member: string }) {
+    await this.redis.zadd(key, entry);
+  }
+
+  async zrange(key: string, options?: { rev?: boolean }): Promise<string[]> {
+    const members = await this.redis.zrange(key, 0, -1, {
+      rev: options?.rev,
+    });
+    return members.map(String);
+  }
+
+  async zrem(key: string, member: string) {
+    await this.redis.zrem(key, member);
+  }
+
+  async lpush<T>(key: string, value: T) {
+    await this.redis.lpush(key, value);
+  }
+
+  async ltrim(key: string, start: number, stop: number) {
+    await this.redis.ltrim(key, start, stop);
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    return this.redis.lrange<T>(key, start, stop);
+  }
+
+  async llen(key: string): Promise<number> {
+    return this.redis.llen(key);
+  }
+}
+
+/**
+ * Serialized state shared by the in-memory and file backends
+ */
+interface StorageSnapshot {
+  values: Record<string, { value: unknown; expiresAt: number | null }>;
+  sortedSets: Record<string, Record<string, number>>;
+  lists?: Record<string, unknown[]>; // Optional for files written before lists
+}
+
+/**
+ * Resolve Redis-style inclusive range indexes (negative = from the end)
+ */
+function resolveRange(length: number, start: number, stop: number) {
+  const from = start < 0 ? Math.max(length + start, 0) : start;
+  const to = stop < 0 ? length + stop : Math.min(stop, length - 1);
+  return { from, to };
+}
+
+/**
+ * Convert a Redis glob pattern (*, ?) to a regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * In-memory backend (local development, tests)
+ * Values are round-tripped through JSON to match Upstash serialization.
+ */
+class MemoryStorage implements StorageBackend {
+  protected state: StorageSnapshot = { values: {}, sortedSets: {} };
+
+  protected async load(): Promise<void> {}
+
+  protected async persist(): Promise<void> {}
+
+  async get<T>(key: string): Promise<T | null> {
+    await this.load();
+    const entry = this.state.values[key];
+    if (!entry) return null;
+
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      delete this.state.values[key];
+      await this.persist();
+      return null;
+    }
+
+    return JSON.parse(JSON.stringify(entry.value)) as T;
+  }
+
+  async set<T>(key: string, value: T, options?: { ex?: number }) {
+    await this.load();
+    this.state.values[key] = {
+      value: JSON.parse(JSON.stringify(value)),
+      expiresAt: options?.ex ? Date.now() + options.ex * 1000 : null,
+    };
+    await this.persist();
+  }
+
+  async exists(key: string): Promise<boolean> {
+    await this.load();
+    if (key in this.state.sortedSets) return true;
+    if (this.state.lists?.[key]?.length) return true;
+    return (await this.get(key)) !== null;
+  }
+
+  async del(key: string) {
+    await this.load();
+    delete this.state.values[key];
+    delete this.state.sortedSets[key];
+    delete this.state.lists?.[key];
+    await this.persist();
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    await this.load();
+    const regex = globToRegExp(pattern);
+    const now = Date.now();
+
+    const valueKeys = Object.entries(this.state.values)
+      .filter(([, entry]) => entry.expiresAt === null || entry.expiresAt > now)
+      .map(([key]) => key);
+    const allKeys = [
+      ...valueKeys,
+      ...Object.keys(this.state.sortedSets),
+      ...Object.keys(this.state.lists ?? {}),
+    ];
+
+    return allKeys.filter((key) => regex.test(key));
+  }
+
+  async zadd(key: string, entry: { score: number; member: string }) {
+    await this.load();
+    const set = (this.state.sortedSets[key] ??= {});
+    set[entry.member] = entry.score;
+    await this.persist();
+  }
+
+  async zrange(key: string, options?: { rev?: boolean }): Promise<string[]> {
+    await this.load();
+    const set = this.state.sortedSets[key] ?? {};
+
+    // Redis orders by score, then lexicographically by member
+    const members = Object.keys(set).sort(
+      (a, b) => set[a] - set[b] || (a < b ? -1 : a > b ? 1 : 0)
+    );
+
+    return options?.rev ? members.reverse() : members;
+  }
+
+  async zrem(key: string, member: string) {
+    await this.load();
+    const set = this.state.sortedSets[key];
+    if (!set) return;
+
+    delete set[member];
+    if (Object.keys(set).length === 0) {
+      delete this.state.sortedSets[key];
+    }
+    await this.persist();
+  }
+
+  async lpush<T>(key: string, value: T) {
+    await this.load();
+    const lists = (this.state.lists ??= {});
+    (lists[key] ??= []).unshift(JSON.parse(JSON.stringify(value)));
+    await this.persist();
+  }
+
+  async ltrim(key: string, start: number, stop: number) {
+    await this.load();
+    const list = this.state.lists?.[key];
+    if (!list) return;
+
+    const { from, to } = resolveRange(list.length, start, stop);
+    this.state.lists![key] = list.slice(from, to + 1);
+    await this.persist();
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    await this.load();
+    const list = this.state.lists?.[key] ?? [];
+
+    const { from, to } = resolveRange(list.length, start, stop);
+    return JSON.parse(JSON.stringify(list.slice(from, to + 1))) as T[];
+  }
+
+  async llen(key: string): Promise<number> {
+    await this.load();
+    return this.state.lists?.[key]?.length ?? 0;
+  }
+}
+
+/**
+ * JSON file backend (offline development)
+ * Loads the file once and rewrites it after every mutation.
+ */
+class FileStorage extends MemoryStorage {
+  private loaded = false;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  protected async load(): Promise<void> {
+    if (this.loaded) return;
+
+    try {
+      const content = await fs.readFile(this.filePath, "utf-8");
+      this.state = JSON.parse(content) as StorageSnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  protected async persist(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(this.state, null, 2));
+  }
+}
+
+/**
+ * Create a storage backend from explicit configuration
+ * @param config - Backend type and options
+ * @returns Storage backend instance
+ */
+export function createStorage(config: StorageConfig): StorageBackend {
+  switch (config.backend) {
+    case "upstash":
+      return new UpstashStorage(Redis.fromEnv());
+    case "memory":
+      return new MemoryStorage();
+    case "file":
+      return new FileStorage(
+        path.resolve(config.filePath || DEFAULT_FILE_PATH)
+      );
+    default:
+      throw new Error(`Unknown storage backend: ${config.backend}`);
+  }
+}
+
+/**
+ * Read storage configuration from environment
+ * - STORAGE_BACKEND: "upstash" (default), "memory" or "file"
+ * - STORAGE_FILE_PATH: JSON file path for the file backend
+ */
+export function getStorageConfig(): StorageConfig {
+  const backend = (process.env.STORAGE_BACKEND ||
+    "upstash") as StorageBackendType;
+
+  return {
+    backend,
+    filePath: process.env.STORAGE_FILE_PATH,
+  };
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Get the shared storage backend (created lazily from environment)
+ * @returns Storage backend instance
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    storage = createStorage(getStorageConfig());
+  }
+  return storage;
+}
+
+/**
+ * Replace the shared storage backend (e.g. with a fresh in-memory store)
+ * @param backend - Storage backend to use
+ */
+export function setStorage(backend: StorageBackend): void {
+  storage = backend;
+}
@@ -0,0 +1,20 @@
+/**
+ * Text
+ * Normalization for matching blog text against dictionaries and queries,
+ * regardless of case, Polish diacritics or spacing.
+ */
+
+/**
+ * Lowercase, strip Polish diacritics and collapse whitespace
+ * @param value - Raw text
+ * @returns Folded text, e.g. "Wykroki z hantlą" → "wykroki z hantla"
+ */
+export function foldText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[łŁ]/g, "l")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
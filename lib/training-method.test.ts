@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { parseDurationSeconds, parseTrainingMethod } from "./training-method";
+import type { ParsedMethod } from "./types";
+import corpus from "./fixtures/training-methods.json";
+
+describe("parseTrainingMethod", () => {
+  it.each(corpus as Array<{ method: string; expected: ParsedMethod }>)(
+    "parses $method",
+    ({ method, expected }) => {
+      expect(parseTrainingMethod(method)).toEqual(expected);
+    }
+  );
+});
+
+describe("parseDurationSeconds", () => {
+  it.each([
+    ["21 min", 1260],
+    ["2,5 min", 150],
+    ["1:30", 90],
+    ["45 s", 45],
+    ["1 min 30 s", 90],
+  ])("parses %s", (text, seconds) => {
+    expect(parseDurationSeconds(text)).toBe(seconds);
+  });
+
+  it("multiplies by a repeat count", () => {
+    expect(parseDurationSeconds("2x10 min")).toBe(1200);
+    expect(parseDurationSeconds("3 x 1:30")).toBe(270);
+  });
+
+  it("returns null for ranges", () => {
+    expect(parseDurationSeconds("ok. 25-30 min")).toBeNull();
+    expect(parseDurationSeconds("25 – 30 min")).toBeNull();
+  });
+
+  it("returns null without a duration", () => {
+    expect(parseDurationSeconds("do oporu")).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+import { foldText } from "./text";
+import type { DaySchedule, MethodBlock, ParsedMethod } from "./types";
+
+/**
+ * Training Method Parser
+ * Turns the free-text training method into a typed structure (protocol,
+ * rounds, interval, work/rest, blocks), e.g.:
+ *
+ *   "2 x EMOM"                  → 2 × EMOM, 60 s interval
+ *   "4 rundy, co 2,5 min ..."   → 4 rounds, 150 s interval
+ *   "WORK + TABATA"             → work block, then tabata (8 × 20/10 s)
+ *   "AMRAP 12 min"              → AMRAP, 720 s
+ *   "40 s pracy / 20 s przerwy" → intervals, 40/20 s
+ *
+ * Polish number formats are supported ("2,5 min", "1:30", "90 sek").
+ */
+
+// "1:30", "2,5 min", "90 s", "45''", "1 min 30 s"; skips the ends of ranges
+// such as "25-30 min", which have no single duration
+const DURATION_PATTERN =
+  /(?<![\d.,]|\d\s*[-–]\s*)(?:(\d+):(\d{2})(?!\d|\s*[-–]\s*\d+:\d)|(\d+(?:[.,]\d+)?)\s*(?:min(?:ut[ay]?)?\b|'(?!')|m\b)(?:\s*(\d+)\s*(?:s|sek|sekund)\b)?|(\d+(?:[.,]\d+)?)\s*(?:s\b|sek\w*|''|"))/g;
+
+const ROUNDS_PATTERN =
+  /(\d+)\s*(?:x\s*)?(?:rund[ay]?|round(?:s)?|serie|serii|seria|obwod(?:y|ow)?)\b/;
+
+const REPEATS_PATTERN = /^(\d+)\s*x\s*/;
+
+function toNumber(value: string): number {
+  return parseFloat(value.replace(",", "."));
+}
+
+/**
+ * Find all durations in a text
+ * @param text - Folded text
+ * @returns Durations in seconds, in order of appearance
+ */
+function findDurations(text: string): number[] {
+  return [...text.matchAll(DURATION_PATTERN)].map(toSeconds);
+}
+
+/**
+ * Convert a DURATION_PATTERN match to seconds
+ */
+function toSeconds(match: RegExpMatchArray): number {
+  if (match[1]) return Number(match[1]) * 60 + Number(match[2]);
+  if (match[3]) {
+    return Math.round(toNumber(match[3]) * 60) + Number(match[4] ?? 0);
+  }
+  return Math.round(toNumber(match[5]));
+}
+
+/**
+ * Parse a duration in Polish or English notation
+ * A repeat count in front of the time multiplies it ("2x10 min" is 20 min).
+ * Ranges such as "25-30 min" have no single duration and return null.
+ * @param text - e.g. "21 min", "2,5 min", "1:30", "45 s", "2 x 10 min"
+ * @returns Seconds, or null if no duration was found
+ */
+export function parseDurationSeconds(text: string): number | null {
+  const folded = foldText(text);
+  const [first] = folded.matchAll(DURATION_PATTERN);
+  if (!first) return null;
+
+  const repeats = folded.slice(0, first.index).match(/(\d+)\s*[x×]\s*$/);
+  return toSeconds(first) * (repeats ? Number(repeats[1]) : 1);
+}
+
+/**
+ * Parse one block of a training method (the text between "+" signs)
+ */
+function parseBlock(raw: string): MethodBlock {
+  const text = foldText(raw);
+  const block: MethodBlock = { text: raw.trim(), protocol: "other" };
+
+  const repeats = text.match(REPEATS_PATTERN);
+  if (repeats) block.repeats = Number(repeats[1]);
+  const body = repeats ? text.slice(repeats[0].length) : text;
+
+  const rounds = body.match(ROUNDS_PATTERN);
+  if (rounds) block.rounds = Number(rounds[1]);
+
+  // Durations that describe the interval ("co 2,5 min", "every 1:30")
+  const every = body.match(/\b(?:co|every|kazde|kazda)\s+(.+)/);
+  const interval = every ? findDurations(every[1])[0] : undefined;
+
+  // Work/rest pairs ("40 s pracy / 20 s przerwy", "40/20")
+  const workMatch = body.match(
+    /(\d+(?:[.,]\d+)?\s*(?:s|sek\w*|min|'')?)\s*(?:pracy|praca|work|on)\b/
+  );
+  const restMatch = body.match(
+    /(\d+(?:[.,]\d+)?\s*(?:s|sek\w*|min|'')?)\s*(?:przerwy|przerwa|odpoczynku|rest|off)\b/
+  );
+  const pair = body.match(/\b(\d{1,3})\s*\/\s*(\d{1,3})\b/);
+
+  const parseSeconds = (value: string) =>
+    findDurations(value)[0] ?? Math.round(toNumber(value));
+
+  const durations = findDurations(every ? body.slice(0, every.index) : body);
+
+  if (/\btabata\b/.test(body)) {
+    block.protocol = "tabata";
+    block.rounds ??= 8;
+    block.workSeconds = 20;
+    block.restSeconds = 10;
+  } else if (/\be(\d+)?mom\b/.test(body)) {
+    const minutes = Number(body.match(/\be(\d+)?mom\b/)![1] ?? 1);
+    block.protocol = "emom";
+    block.intervalSeconds = interval ?? minutes * 60;
+    if (durations[0] && !block.rounds) {
+      block.durationSeconds = durations[0];
+      block.rounds = Math.round(durations[0] / block.intervalSeconds);
+    }
+    return block;
+  } else if (/\bamrap\b/.test(body)) {
+    block.protocol = "amrap";
+  } else if (/\bfor time\b|\bna czas\b/.test(body)) {
+    block.protocol = "for-time";
+  } else if (workMatch || restMatch || pair || /\binterwal/.test(body)) {
+    block.protocol = "intervals";
+    if (workMatch) block.workSeconds = parseSeconds(workMatch[1]);
+    if (restMatch) block.restSeconds = parseSeconds(restMatch[1]);
+    if (!workMatch && !restMatch && pair) {
+      block.workSeconds = Number(pair[1]);
+      block.restSeconds = Number(pair[2]);
+    }
+    return block;
+  } else if (block.rounds || interval) {
+    block.protocol = "rounds";
+  } else if (/\bwork\b|\bpraca\b/.test(body)) {
+    block.protocol = "work";
+  }
+
+  if (interval) block.intervalSeconds = interval;
+  if (durations[0] && block.protocol !== "tabata") {
+    block.durationSeconds = durations[0];
+  }
+
+  return block;
+}
+
+/**
+ * Parse a training method
+ * @param method - Training method as written on the blog
+ * @returns Blocks in order; known is false if no block was recognized
+ */
+export function parseTrainingMethod(method: string): ParsedMethod {
+  const blocks = method
+    .split(/\s*[+;]\s*/)
+    .filter((part) => part.trim())
+    .map(parseBlock);
+
+  return {
+    blocks,
+    known: blocks.some((block) => block.protocol !== "other"),
+  };
+}
+
+/**
+ * Attach parsed training methods to every session of a day
+ * Stored values are replaced, so parser fixes apply to days parsed before.
+ * @param day - Day schedule
+ * @returns Day schedule with parsed methods
+ */
+export function withParsedMethods(day: DaySchedule): DaySchedule {
+  return {
+    ...day,
+    trainingSessions: day.trainingSessions.map((session) => ({
+      ...session,
+      parsedMethod: parseTrainingMethod(session.trainingMethod),
+    })),
+  };
+}
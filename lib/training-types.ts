@@ -0,0 +1,127 @@
+import { foldText } from "./text";
+import type { CanonicalType, DaySchedule, WeekSchedule } from "./types";
+
+/**
+ * Training Type Taxonomy
+ * Maps the free-form session type from the blog ("Speed Beginners",
+ * "HYROX SPEED", "Fast&strong") to a canonical family, level and variant,
+ * so grouping, filtering and colour coding can key off stable identifiers.
+ */
+
+export interface TrainingFamily {
+  id: string; // Stable identifier, e.g. "hyrox"
+  label: string; // Display name
+  pattern: RegExp; // Matched against the normalized type
+}
+
+/**
+ * Known families, checked in order (HYROX first, so "HYROX SPEED" is a
+ * HYROX class with a "speed" variant rather than a Speed class)
+ */
+export const TRAINING_FAMILIES: TrainingFamily[] = [
+  { id: "hyrox", label: "HYROX", pattern: /\bhyrox\b/ },
+  {
+    id: "fast-strong",
+    label: "Fast&Strong",
+    pattern: /\bfast\s*(?:&|\+|and|i)?\s*strong\b/,
+  },
+  { id: "speed", label: "Speed", pattern: /\bspeed\b/ },
+  { id: "athletic", label: "Athletic", pattern: /\bathletic\b/ },
+  { id: "fbb", label: "FBB", pattern: /\bfbb\b|\bfull\s*body\b/ },
+  {
+    id: "calisthenics",
+    label: "Calisthenics",
+    pattern: /\bcalisthenics?\b|\bkalistenika\b/,
+  },
+];
+
+const BEGINNERS_PATTERN = /\b(?:beginners?|poczatkujacy|poczatkujacych)\b/;
+
+/**
+ * Turn the leftover words of a type into a kebab-case identifier
+ */
+function slugify(value: string): string {
+  return value
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Classify a raw training type
+ * @param raw - Session type as written on the blog
+ * @returns Canonical type; unknown types get the "other" family and
+ *   known: false
+ */
+export function classifyTrainingType(raw: string): CanonicalType {
+  let rest = foldText(raw);
+
+  const level = BEGINNERS_PATTERN.test(rest) ? "beginners" : "regular";
+  rest = rest.replace(BEGINNERS_PATTERN, " ");
+
+  const family = TRAINING_FAMILIES.find((f) => f.pattern.test(rest));
+  if (family) rest = rest.replace(family.pattern, " ");
+
+  const variant = slugify(rest) || undefined;
+  const familyId = family?.id ?? "other";
+  const id = [familyId, variant, level === "beginners" ? "beginners" : null]
+    .filter(Boolean)
+    .join("-");
+
+  return {
+    id,
+    family: familyId,
+    level,
+    ...(variant ? { variant } : {}),
+    known: !!family,
+  };
+}
+
+/**
+ * Get the display name of a family
+ * @param familyId - Family identifier
+ * @returns Label, or "Inne" for unknown families
+ */
+export function getFamilyLabel(familyId: string): string {
+  return TRAINING_FAMILIES.find((f) => f.id === familyId)?.label ?? "Inne";
+}
+
+/**
+ * Attach canonical types to every session of a day
+ * Stored values are replaced, so types added to the taxonomy apply to days
+ * classified before.
+ * @param day - Day schedule
+ * @returns Day schedule with canonical types
+ */
+export function withCanonicalTypes(day: DaySchedule): DaySchedule {
+  return {
+    ...day,
+    trainingSessions: day.trainingSessions.map((session) => ({
+      ...session,
+      canonicalType: classifyTrainingType(session.type),
+    })),
+  };
+}
+
+/**
+ * Classify all sessions of a parsed week
+ * @param schedule - Parsed week schedule
+ * @returns Schedule with canonical types (reclassified from scratch) and the
+ *   unique raw types that matched no known family
+ */
+export function classifyWeekSchedule(schedule: WeekSchedule): {
+  schedule: WeekSchedule;
+  unknownTypes: string[];
+} {
+  const unknownTypes = new Set<string>();
+
+  const days = schedule.days.map((day) => ({
+    ...day,
+    trainingSessions: day.trainingSessions.map((session) => {
+      const canonicalType = classifyTrainingType(session.type);
+      if (!canonicalType.known) unknownTypes.add(session.type);
+      return { ...session, canonicalType };
+    }),
+  }));
+
+  return { schedule: { ...schedule, days }, unknownTypes: [...unknownTypes] };
+}
@@ -1,5 +1,100 @@
 import { z } from "zod";
 
+/**
+ * Session Verification Schema
+ * Result of checking a parsed session against the source markdown
+ */
+export const SessionVerificationSchema = z.object({
+  confidence: z.number(), // 0-1, share of fields found in the source
+  flagged: z.boolean(), // True if any field could not be found
+  unmatched: z.array(z.string()), // Values missing from the source
+});
+
+export type SessionVerification = z.infer<typeof SessionVerificationSchema>;
+
+/**
+ * Canonical Type Schema
+ * Stable classification of a free-form training type (see
+ * lib/training-types.ts)
+ */
+export const CanonicalTypeSchema = z.object({
+  id: z.string(), // e.g. "speed-beginners", "hyrox-speed"
+  family: z.string(), // e.g. "speed", "hyrox"; "other" if unknown
+  level: z.enum(["regular", "beginners"]),
+  variant: z.string().optional(), // Leftover words, e.g. "speed" in "HYROX SPEED"
+  known: z.boolean(), // False if no known family matched
+});
+
+export type CanonicalType = z.infer<typeof CanonicalTypeSchema>;
+
+/**
+ * Exercise Reference Schema
+ * Link from a raw exercise string to the exercise dictionary (see
+ * lib/exercises.ts)
+ */
+export const ExerciseRefSchema = z.object({
+  movements: z.array(
+    z.object({
+      text: z.string(), // Raw part of a "+" combo
+      ids: z.array(z.string()), // Matched exercise IDs (several for "a/b" alternatives)
+    })
+  ),
+  equipment: z.array(z.string()), // e.g. ["dumbbell"]
+});
+
+export type ExerciseRef = z.infer<typeof ExerciseRefSchema>;
+
+/**
+ * Method Block Schema
+ * One part of a training method ("WORK + TABATA" has two blocks)
+ */
+export const MethodBlockSchema = z.object({
+  text: z.string(), // Raw text of the block
+  protocol: z.enum([
+    "emom",
+    "tabata",
+    "amrap",
+    "for-time",
+    "intervals",
+    "rounds",
+    "work",
+    "other",
+  ]),
+  repeats: z.number().optional(), // "2 x EMOM" → 2
+  rounds: z.number().optional(),
+  intervalSeconds: z.number().optional(), // Start a new round every N seconds
+  workSeconds: z.number().optional(),
+  restSeconds: z.number().optional(),
+  durationSeconds: z.number().optional(), // Stated block length
+});
+
+export type MethodBlock = z.infer<typeof MethodBlockSchema>;
+
+/**
+ * Parsed Method Schema
+ * Typed structure of a free-text training method (see
+ * lib/training-method.ts)
+ */
+export const ParsedMethodSchema = z.object({
+  blocks: z.array(MethodBlockSchema),
+  known: z.boolean(), // False if no block matched a known protocol
+});
+
+export type ParsedMethod = z.infer<typeof ParsedMethodSchema>;
+
+/**
+ * Duration Summary Schema
+ * Main part work time of a day or week; sessions whose duration couldn't be
+ * parsed are left out
+ */
+export const DurationSummarySchema = z.object({
+  totalMinutes: z.number(),
+  maxMinutes: z.number(), // Longest single session
+  timedSessions: z.number(), // Sessions with a parsed duration
+});
+
+export type DurationSummary = z.infer<typeof DurationSummarySchema>;
+
 /**
  * Training Session Schema
  * Represents a single training session with exercises, method, and duration
@@ -9,6 +104,13 @@ export const TrainingSessionSchema = z.object({
   exercises: z.array(z.string()), // Exercise names in Polish
   trainingMethod: z.string(), // e.g., "2 x EMOM", "4 rundy, co 2,5 min wykonaj parę ćwiczeń"
   mainPartDuration: z.string(), // e.g., "21 min"
+  verification: SessionVerificationSchema.optional(), // Set by grounding check
+  edited: z.boolean().optional(), // True if changed by a manual override
+  canonicalType: CanonicalTypeSchema.optional(), // Set at ingest from `type`, recomputed on read
+  exerciseRefs: z.array(ExerciseRefSchema).optional(), // Set at ingest, one per exercise, recomputed on read
+  newExercises: z.array(z.string()).optional(), // Set on read: exercise IDs first seen on this day
+  parsedMethod: ParsedMethodSchema.optional(), // Set at ingest from `trainingMethod`, recomputed on read
+  durationMinutes: z.number().nullable().optional(), // Set at ingest from `mainPartDuration`, recomputed on read; null if unparseable
 });
 
 export type TrainingSession = z.infer<typeof TrainingSessionSchema>;
@@ -22,8 +124,11 @@ export const DayScheduleSchema = z.object({
   dayName: z.string(), // Polish day name
   isoDate: z.string().optional(), // YYYY-MM-DD format (for day-based storage)
   sourceUrl: z.string().optional(), // Original blog post URL
+  sourceVersion: z.string().optional(), // Archived source version ID
   scrapedAt: z.string().optional(), // ISO timestamp
+  overriddenAt: z.string().optional(), // ISO timestamp of the last manual override
   trainingSessions: z.array(TrainingSessionSchema),
+  durationSummary: DurationSummarySchema.optional(), // Recomputed on read
 });
 
 export type DaySchedule = z.infer<typeof DayScheduleSchema>;
@@ -35,12 +140,281 @@ export type DaySchedule = z.infer<typeof DayScheduleSchema>;
 export const WeekScheduleSchema = z.object({
   week: z.string(), // DD/MM/YYYY-DD/MM/YYYY format (e.g., "20/10/2024-26/10/2024")
   sourceUrl: z.string(), // Original blog post URL
+  sourceVersion: z.string().optional(), // Archived source version ID
   scrapedAt: z.string(), // ISO timestamp
   days: z.array(DayScheduleSchema),
+  durationSummary: DurationSummarySchema.optional(), // Recomputed on read
 });
 
 export type WeekSchedule = z.infer<typeof WeekScheduleSchema>;
 
+/**
+ * Session Edit Schema
+ * Fields of a training session that can be corrected manually
+ */
+export const SessionEditSchema = TrainingSessionSchema.pick({
+  type: true,
+  exercises: true,
+  trainingMethod: true,
+  mainPartDuration: true,
+});
+
+export type SessionEdit = z.infer<typeof SessionEditSchema>;
+
+/**
+ * Session Override
+ * Manual correction of a single scraped session
+ */
+export interface SessionOverride {
+  index: number; // Position of the session in the day
+  baseType: string; // Session type at edit time, used to re-match after re-scrapes
+  changes: Partial<SessionEdit>;
+}
+
+/**
+ * Day Override
+ * Manual corrections layered on top of a scraped day schedule
+ */
+export interface DayOverride {
+  isoDate: string; // YYYY-MM-DD
+  trainingSessions?: SessionEdit[]; // Replaces all scraped sessions if set
+  sessions: SessionOverride[];
+  updatedAt: string; // ISO timestamp
+  updatedBy: string;
+}
+
+/**
+ * Override Audit Entry
+ * Record of a single manual change to a day schedule
+ */
+export interface OverrideAuditEntry {
+  at: string; // ISO timestamp
+  author: string;
+  action: "replace_day" | "edit_session" | "revert";
+  sessionIndex?: number;
+  before: SessionEdit[] | null; // Effective sessions before the change
+  after: SessionEdit[] | null; // Effective sessions after the change
+}
+
+/**
+ * Stored Week
+ * Week metadata kept alongside the day-based storage
+ */
+export interface StoredWeek {
+  week: string; // DD/MM/YYYY-DD/MM/YYYY
+  sourceUrl: string;
+  sourceVersion?: string;
+  scrapedAt: string; // ISO timestamp
+  firstStoredAt?: string; // ISO timestamp, when the week was first stored
+  dayCount: number;
+}
+
+/**
+ * Week Summary
+ * Overview of a stored week for week-by-week browsing
+ */
+export interface WeekSummary {
+  week: string; // DD/MM/YYYY-DD/MM/YYYY
+  start: string; // YYYY-MM-DD, identifies the week in /api/weeks/[week]
+  sourceUrl: string;
+  scrapedAt: string; // ISO timestamp
+  dayCount: number; // Days stored for the week
+}
+
+/**
+ * Review Queue Entry
+ * Raw value from the blog that matched no dictionary entry (training type,
+ * exercise name), kept for review
+ */
+export interface ReviewQueueEntry {
+  value: string; // Raw text as written on the blog
+  occurrences: number; // Ingests in which it appeared
+  firstSeen: string; // ISO timestamp
+  lastSeen: string; // ISO timestamp
+  lastWeek: string; // Week it last appeared in
+}
+
+/**
+ * Search Result
+ * A stored training session matching a search query. The derived fields are
+ * taken from the session as read, for highlight badges.
+ */
+export interface SearchResult
+  extends Pick<
+    TrainingSession,
+    "canonicalType" | "exerciseRefs" | "durationMinutes" | "newExercises"
+  > {
+  isoDate: string; // YYYY-MM-DD
+  date: string; // DD.MM
+  dayName: string;
+  sessionIndex: number; // Position of the session in the day
+  type: string;
+  exercises: string[];
+  trainingMethod: string;
+  mainPartDuration: string;
+}
+
+/**
+ * Search Document
+ * Indexed form of a training session (see lib/search.ts)
+ */
+export interface SearchDocument extends SearchResult {
+  words: string[]; // Folded words, including dictionary names and aliases
+  exerciseIds: string[]; // Linked exercise dictionary IDs
+}
+
+/**
+ * Exercise Stats
+ * How an exercise is used across the stored schedule history
+ */
+export interface ExerciseStats {
+  id: string; // Dictionary ID, or the normalized name if not in the dictionary
+  name: string; // Display name
+  known: boolean; // False if the exercise isn't in the dictionary
+  sessions: number; // Sessions that include it
+  byMonth: Record<string, number>; // YYYY-MM → sessions
+  types: Array<{ family: string; label: string; sessions: number }>; // Most frequent first
+  firstSeen: string; // YYYY-MM-DD
+  lastSeen: string; // YYYY-MM-DD
+  pairedWith: Array<{ id: string; name: string; sessions: number }>; // Most frequent first
+}
+
+/**
+ * Exercise Stats Report
+ * Exercise statistics over a range of stored days
+ */
+export interface ExerciseStatsReport {
+  from: string | null; // YYYY-MM-DD of the first day with sessions
+  to: string | null; // YYYY-MM-DD of the last day with sessions
+  months: string[]; // Every YYYY-MM between from and to
+  totalSessions: number;
+  exercises: ExerciseStats[]; // Most frequent first
+}
+
+/**
+ * Blog Post
+ * Scraped blog post content
+ */
+export interface BlogPost {
+  url: string;
+  markdown: string;
+  publishedAt?: string; // ISO timestamp from page metadata, if available
+}
+
+/**
+ * Source Record
+ * Last ingested version of a blog post, used to detect content changes
+ */
+export interface SourceRecord {
+  url: string;
+  hash: string; // SHA-256 of the post markdown
+  week: string; // Week parsed from this version
+  versionId?: string; // Archived source version that was ingested
+  ingestedAt: string; // ISO timestamp
+}
+
+/**
+ * Source Version
+ * Immutable archived copy of a blog post's markdown
+ */
+export interface SourceVersion {
+  id: string; // {timestamp}-{hash prefix}
+  url: string;
+  hash: string; // SHA-256 of the markdown
+  markdown: string;
+  fetchedAt: string; // ISO timestamp
+  publishedAt?: string; // ISO timestamp from page metadata, if available
+}
+
+/**
+ * Scrape pipeline stages, used for per-stage timings
+ */
+export type ScrapeStage =
+  | "skipCheck"
+  | "fetch"
+  | "archive"
+  | "parse"
+  | "verify"
+  | "store";
+
+/**
+ * URL Outcome
+ * What happened to a single blog post during ingest
+ */
+export interface UrlOutcome {
+  url: string;
+  status: "stored" | "unchanged" | "parse_failed" | "store_failed";
+  week?: string;
+  versionId?: string;
+  changedDays?: string[]; // ISO dates
+  flaggedSessions?: number;
+  error?: string;
+}
+
+/**
+ * Ingest Result
+ * Outcome of parsing and storing a batch of blog posts
+ */
+export interface IngestResult {
+  stored: string[]; // Weeks stored (new or changed)
+  skipped: string[]; // Weeks skipped because their post was unchanged
+  changedDays: string[]; // ISO dates whose content changed
+  flaggedSessions: Array<{ week: string; date: string; type: string }>;
+  unknownTypes: string[]; // Raw training types with no known family
+  unmatchedExercises: string[]; // Movement names missing from the dictionary
+  unparsedDurations: string[]; // Main part durations with no recognizable time
+  errors: string[];
+  totalDaysStored: number;
+  outcomes: UrlOutcome[];
+  timings: Partial<Record<ScrapeStage, number>>; // Milliseconds per stage
+}
+
+/**
+ * Scrape Run
+ * Record of a single scrape invocation, appended to the run history
+ */
+export interface ScrapeRun {
+  runId: string;
+  trigger: "cron" | "manual" | "admin";
+  status: "success" | "partial" | "failed" | "skipped";
+  startedAt: string; // ISO timestamp
+  finishedAt: string; // ISO timestamp
+  durationMs: number;
+  skipReason?: string;
+  daysAhead?: number;
+  urls: string[];
+  outcomes: UrlOutcome[];
+  timings: Partial<Record<ScrapeStage, number>>; // Milliseconds per stage
+  storedWeeks: string[];
+  skippedWeeks: string[];
+  changedDays: string[]; // ISO dates
+  flaggedSessions: IngestResult["flaggedSessions"];
+  unknownTypes?: string[]; // Missing in runs recorded before the taxonomy
+  unmatchedExercises?: string[]; // Missing in runs recorded before the dictionary
+  unparsedDurations?: string[]; // Missing in runs recorded before duration parsing
+  errors: string[];
+  totalDaysStored: number;
+}
+
+/**
+ * Backfill State
+ * Progress of the historical archive backfill, persisted between runs
+ */
+export interface BackfillState {
+  until: string; // YYYY-MM-DD, oldest date to backfill
+  nextPage: number; // Next category listing page to process
+  reachedEnd: boolean; // Listing walked back to `until` or the last page
+  completed: boolean; // Reached the end with no posts left to retry
+  pendingPosts: Array<{ url: string; attempts: number }>; // Failed posts to retry
+  pagesProcessed: number;
+  postsProcessed: number;
+  weeksStored: number;
+  weeksSkipped: number;
+  errors: string[]; // Most recent errors
+  startedAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
 /**
  * Scraping Result
  * Used for tracking scraping operation results
@@ -52,3 +426,20 @@ export interface ScrapingResult {
   urls: string[];
   timestamp: string;
 }
+
+/**
+ * Grounding Report
+ * Per-session confidence for a parsed week, checked against source markdown
+ */
+export interface GroundingReport {
+  week: string;
+  sourceUrl: string;
+  checkedAt: string;
+  sessions: Array<
+    {
+      date: string;
+      type: string;
+    } & SessionVerification
+  >;
+  flaggedCount: number;
+}
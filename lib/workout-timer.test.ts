@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { buildTimerPlan, formatClock, TimerPhase } from "./workout-timer";
+import type { TrainingSession } from "./types";
+
+function session(
+  trainingMethod: string,
+  mainPartDuration: string,
+  exercises = ["A", "B", "C", "D"]
+): TrainingSession {
+  return { type: "Speed", exercises, trainingMethod, mainPartDuration };
+}
+
+// Phases after the initial countdown
+function workout(phases: TimerPhase[]): TimerPhase[] {
+  expect(phases[0]).toMatchObject({ kind: "prepare" });
+  return phases.slice(1);
+}
+
+function totalSeconds(phases: TimerPhase[]): number {
+  return phases.reduce((sum, phase) => sum + phase.seconds, 0);
+}
+
+describe("buildTimerPlan", () => {
+  it("fills the whole main part with EMOM minutes", () => {
+    const phases = workout(buildTimerPlan(session("2 x EMOM", "21 min")));
+
+    expect(phases).toHaveLength(21);
+    expect(phases.every((phase) => phase.seconds === 60)).toBe(true);
+    expect(phases.map((phase) => phase.totalRounds)).toEqual([
+      ...Array(11).fill(11),
+      ...Array(10).fill(10),
+    ]);
+    expect(phases.slice(0, 5).map((phase) => phase.exercise)).toEqual([
+      "A",
+      "B",
+      "C",
+      "D",
+      "A",
+    ]);
+    expect(phases[11]).toMatchObject({ round: 1, exercise: "A" });
+  });
+
+  it("uses the interval of an EMOM variant", () => {
+    const phases = workout(buildTimerPlan(session("E2MOM 16 min", "16 min")));
+
+    expect(phases).toHaveLength(8);
+    expect(phases.every((phase) => phase.seconds === 120)).toBe(true);
+  });
+
+  it("alternates Tabata work and rest", () => {
+    const phases = workout(buildTimerPlan(session("TABATA", "4 min")));
+
+    expect(phases).toHaveLength(16);
+    expect(phases.slice(0, 2)).toMatchObject([
+      { kind: "work", seconds: 20, round: 1, totalRounds: 8 },
+      { kind: "rest", seconds: 10, round: 1, totalRounds: 8 },
+    ]);
+    expect(totalSeconds(phases)).toBe(240);
+  });
+
+  it("keeps the stated rounds of N rounds every X", () => {
+    const phases = workout(
+      buildTimerPlan(session("4 rundy, co 1:30", "24 min"))
+    );
+
+    expect(phases).toHaveLength(16);
+    expect(phases.every((phase) => phase.seconds === 90)).toBe(true);
+    expect(phases.every((phase) => phase.totalRounds === 4)).toBe(true);
+    expect(phases.slice(0, 5).map((phase) => phase.round)).toEqual([
+      1, 1, 1, 1, 2,
+    ]);
+    expect(phases.slice(0, 4).map((phase) => phase.exercise)).toEqual([
+      "A",
+      "B",
+      "C",
+      "D",
+    ]);
+  });
+
+  it("groups exercises into stations when a round has fewer intervals", () => {
+    const phases = workout(
+      buildTimerPlan(
+        session("4 rundy, co 2,5 min wykonaj parę ćwiczeń", "24 min", [
+          "A",
+          "B",
+          "C",
+          "D",
+          "E",
+          "F",
+        ])
+      )
+    );
+
+    expect(phases).toHaveLength(8);
+    expect(phases.map((phase) => phase.round)).toEqual([
+      1, 1, 2, 2, 3, 3, 4, 4,
+    ]);
+    expect(phases.every((phase) => phase.totalRounds === 4)).toBe(true);
+    expect(phases.slice(0, 2).map((phase) => phase.exercise)).toEqual([
+      "A + B + C",
+      "D + E + F",
+    ]);
+  });
+
+  it("repeats work and rest for every stated round", () => {
+    const phases = workout(
+      buildTimerPlan(session("3 serie, 45 s pracy / 15 s przerwy", "3 min"))
+    );
+
+    expect(phases).toHaveLength(6);
+    expect(phases.map((phase) => [phase.kind, phase.seconds])).toEqual([
+      ["work", 45],
+      ["rest", 15],
+      ["work", 45],
+      ["rest", 15],
+      ["work", 45],
+      ["rest", 15],
+    ]);
+  });
+
+  it("gives an open work block the time left by the other blocks", () => {
+    const phases = workout(buildTimerPlan(session("WORK + TABATA", "20 min")));
+
+    expect(phases[0]).toMatchObject({ kind: "work", seconds: 960, block: 0 });
+    expect(phases.slice(1).every((phase) => phase.block === 1)).toBe(true);
+    expect(totalSeconds(phases)).toBe(1200);
+  });
+
+  it("returns no phases for a method without timing", () => {
+    expect(buildTimerPlan(session("Obwód", "do oporu"))).toEqual([]);
+  });
+});
+
+describe("formatClock", () => {
+  it("formats minutes and seconds", () => {
+    expect(formatClock(90)).toBe("1:30");
+    expect(formatClock(0.2)).toBe("0:01");
+    expect(formatClock(-5)).toBe("0:00");
+  });
+});
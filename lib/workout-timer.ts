@@ -0,0 +1,237 @@
+import { parseDurationSeconds, parseTrainingMethod } from "./training-method";
+import type { MethodBlock, TrainingSession } from "./types";
+
+/**
+ * Workout Timer Plan
+ * Expands a session's parsed training method into a flat list of timed
+ * phases (EMOM minutes, Tabata work/rest, rounds every X minutes...), with
+ * the exercise to do in each phase.
+ */
+
+export interface TimerPhase {
+  kind: "prepare" | "work" | "rest";
+  seconds: number;
+  exercise?: string; // Exercise for this interval
+  round?: number; // 1-based round within the block
+  totalRounds?: number;
+  block: number; // Index of the method block
+}
+
+const PREPARE_SECONDS = 10;
+
+/**
+ * Rotate through the session's exercises, one per interval
+ */
+function exerciseAt(exercises: string[], index: number): string | undefined {
+  return exercises.length > 0
+    ? exercises[index % exercises.length]
+    : undefined;
+}
+
+/**
+ * Split exercises into a number of stations whose sizes differ by at most
+ * one; with fewer exercises than stations, each exercise is its own station
+ */
+function toStations(exercises: string[], count: number): string[] {
+  if (exercises.length <= count) return exercises;
+  return Array.from({ length: count }, (_, i) =>
+    exercises
+      .slice(
+        Math.floor((i * exercises.length) / count),
+        Math.floor(((i + 1) * exercises.length) / count)
+      )
+      .join(" + ")
+  );
+}
+
+/**
+ * Split a whole number into near-equal parts, larger parts first
+ * e.g. 21 intervals over 2 repeats → [11, 10]
+ */
+function splitEvenly(total: number, parts: number): number[] {
+  return Array.from(
+    { length: parts },
+    (_, i) => Math.floor(total / parts) + (i < total % parts ? 1 : 0)
+  );
+}
+
+/**
+ * Seconds a block takes on its own, if the method states enough to tell
+ * ("N rounds every X min" doesn't: a round may span several intervals)
+ */
+function blockSeconds(block: MethodBlock): number | null {
+  const repeats = block.repeats ?? 1;
+
+  if (block.durationSeconds) return block.durationSeconds * repeats;
+  if (block.protocol === "emom" && block.rounds && block.intervalSeconds) {
+    return block.rounds * block.intervalSeconds * repeats;
+  }
+  if (block.rounds && block.workSeconds) {
+    const round = block.workSeconds + (block.restSeconds ?? 0);
+    return block.rounds * round * repeats;
+  }
+  return null;
+}
+
+/**
+ * Expand one block into phases
+ * @param block - Parsed method block
+ * @param seconds - Time available for the block (all repeats)
+ * @param exercises - Session exercises
+ * @param index - Block index
+ */
+function expandBlock(
+  block: MethodBlock,
+  seconds: number | null,
+  exercises: string[],
+  index: number
+): TimerPhase[] {
+  const repeats = block.repeats ?? 1;
+  const perRepeat = seconds ? seconds / repeats : null;
+  const phases: TimerPhase[] = [];
+
+  // Fixed-length intervals: EMOM, "every X minutes"
+  const interval = block.intervalSeconds;
+  if (interval) {
+    // "N rounds every X": each stated round spreads the exercises over the
+    // intervals that fit into it ("4 rundy, co 1:30" in 24 min → 4 per
+    // round); without a duration a round is a single interval
+    if (block.protocol !== "emom" && block.rounds) {
+      const rounds = block.rounds;
+      const perRound = perRepeat
+        ? Math.max(1, Math.floor(perRepeat / (rounds * interval)))
+        : 1;
+      const stations = toStations(exercises, perRound);
+
+      for (let r = 0; r < repeats; r++) {
+        for (let round = 0; round < rounds; round++) {
+          for (let i = 0; i < perRound; i++) {
+            phases.push({
+              kind: "work",
+              seconds: interval,
+              exercise: exerciseAt(stations, i),
+              round: round + 1,
+              totalRounds: rounds,
+              block: index,
+            });
+          }
+        }
+      }
+      return phases;
+    }
+
+    // EMOM and "every X" without rounds: one exercise per interval, as many
+    // intervals as fit into the whole block; an uneven count ("2 x EMOM" in
+    // 21 min) gives the first repeats one interval more
+    const counts = seconds
+      ? splitEvenly(Math.max(1, Math.floor(seconds / interval)), repeats)
+      : Array<number>(repeats).fill(block.rounds ?? 0);
+
+    for (const count of counts) {
+      for (let i = 0; i < count; i++) {
+        phases.push({
+          kind: "work",
+          seconds: interval,
+          exercise: exerciseAt(exercises, i),
+          round: i + 1,
+          totalRounds: count,
+          block: index,
+        });
+      }
+    }
+    return phases;
+  }
+
+  // Work/rest: Tabata, intervals
+  const work = block.workSeconds;
+  if (work) {
+    const rest = block.restSeconds ?? 0;
+    const rounds =
+      block.rounds ??
+      (perRepeat
+        ? Math.max(1, Math.floor(perRepeat / (work + rest)))
+        : Math.max(1, exercises.length));
+    for (let r = 0; r < repeats; r++) {
+      for (let i = 0; i < rounds; i++) {
+        phases.push({
+          kind: "work",
+          seconds: work,
+          exercise: exerciseAt(exercises, i),
+          round: i + 1,
+          totalRounds: rounds,
+          block: index,
+        });
+        if (rest > 0) {
+          phases.push({
+            kind: "rest",
+            seconds: rest,
+            exercise: exerciseAt(exercises, i + 1),
+            round: i + 1,
+            totalRounds: rounds,
+            block: index,
+          });
+        }
+      }
+    }
+    return phases;
+  }
+
+  // Continuous blocks (AMRAP, for time, work): one phase per repeat
+  if (perRepeat) {
+    for (let r = 0; r < repeats; r++) {
+      phases.push({
+        kind: "work",
+        seconds: Math.round(perRepeat),
+        exercise: exercises.join(", ") || undefined,
+        round: repeats > 1 ? r + 1 : undefined,
+        totalRounds: repeats > 1 ? repeats : undefined,
+        block: index,
+      });
+    }
+  }
+  return phases;
+}
+
+/**
+ * Build the timer phases for a session
+ * Blocks without a stated length share whatever is left of the main part
+ * duration (e.g. the "WORK" in "WORK + TABATA").
+ * @param session - Training session
+ * @returns Phases starting with a short countdown, or an empty list if the
+ *   method and duration don't describe a timed workout
+ */
+export function buildTimerPlan(session: TrainingSession): TimerPhase[] {
+  const method =
+    session.parsedMethod ?? parseTrainingMethod(session.trainingMethod);
+  const total = parseDurationSeconds(session.mainPartDuration);
+
+  const known = method.blocks.map(blockSeconds);
+  const knownTotal = known.reduce<number>((sum, s) => sum + (s ?? 0), 0);
+  const unknownCount = known.filter((seconds) => seconds === null).length;
+  const leftover = total !== null ? Math.max(0, total - knownTotal) : null;
+  const share =
+    leftover !== null && unknownCount > 0 ? leftover / unknownCount : null;
+
+  const phases = method.blocks.flatMap((block, index) =>
+    expandBlock(
+      block,
+      known[index] ?? (share && share > 0 ? share : null),
+      session.exercises,
+      index
+    )
+  );
+  if (phases.length === 0) return [];
+
+  return [{ kind: "prepare", seconds: PREPARE_SECONDS, block: 0 }, ...phases];
+}
+
+/**
+ * Format seconds as a clock, e.g. 90 → "1:30"
+ * @param seconds - Non-negative seconds
+ * @returns Minutes and zero-padded seconds
+ */
+export function formatClock(seconds: number): string {
+  const whole = Math.max(0, Math.ceil(seconds));
+  const minutes = Math.floor(whole / 60);
+  return `${minutes}:${(whole % 60).toString().padStart(2, "0")}`;
+}